@@ -0,0 +1,234 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SkulAttestedRegistry
+ * @author SKÜL Team
+ * @notice A Proof-of-Skill registry that only records credentials attested by the SKÜL issuer.
+ * @dev Same storage, reads and `CredentialIssued` event as SkulRegistryV2, but `issueCredential`
+ *      requires an EIP-712 signature from the issuer over the credential. The issuer re-scores
+ *      the answer off-chain and only signs passing attempts, so credentials can't be self-issued.
+ *      Calls relayed through the trusted ERC-2771 forwarder (see SkulForwarder) are credited
+ *      to the signing user.
+ */
+contract SkulAttestedRegistry {
+    /**
+     * @notice Represents a single Proof-of-Skill credential
+     * @param fid The user's Farcaster ID (FID)
+     * @param skillName The name of the skill/category (e.g., "Business English")
+     * @param challengeId The id of the challenge that was passed (e.g., "email-1")
+     * @param score The score the issuer gave the answer, out of 100
+     * @param credentialHash The credential number derived off-chain from the credential inputs
+     * @param completedAt The block timestamp when the credential was issued
+     */
+    struct Credential {
+        uint256 fid;
+        string skillName;
+        string challengeId;
+        uint8 score;
+        bytes32 credentialHash;
+        uint256 completedAt;
+    }
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    bytes32 public constant ATTESTATION_TYPEHASH =
+        keccak256(
+            "Attestation(address user,uint256 fid,string skill,string challengeId,uint8 score,bytes32 credentialHash,uint256 nonce,uint256 expiry)"
+        );
+
+    /// @notice The account allowed to change the issuer
+    address public owner;
+
+    /// @notice The address whose EIP-712 signatures are accepted
+    address public issuer;
+
+    /// @notice Maps user wallet addresses to their list of credentials
+    mapping(address => Credential[]) public userCredentials;
+
+    /// @notice Maps a credential hash to the wallet it was issued to
+    mapping(bytes32 => address) public credentialHolder;
+
+    /// @notice Attestation nonces that have already been used
+    mapping(uint256 => bool) public usedNonces;
+
+    /// @notice The ERC-2771 forwarder allowed to relay calls for users; the zero address disables relaying
+    address public immutable trustedForwarder;
+
+    /**
+     * @notice Emitted when a new credential is issued to a user
+     * @dev Same signature as SkulRegistryV2 so existing indexers pick it up
+     */
+    event CredentialIssued(
+        address indexed user,
+        uint256 indexed fid,
+        string skillName,
+        string challengeId,
+        uint8 score,
+        bytes32 indexed credentialHash,
+        uint256 timestamp
+    );
+
+    /// @notice Emitted when the owner rotates the issuer key
+    event IssuerChanged(address indexed previousIssuer, address indexed newIssuer);
+
+    /**
+     * @param _issuer The address whose signatures are accepted
+     * @param _trustedForwarder The ERC-2771 forwarder for sponsored mints, or the zero address
+     */
+    constructor(address _issuer, address _trustedForwarder) {
+        require(_issuer != address(0), "SkulAttestedRegistry: zero issuer");
+        owner = msg.sender;
+        issuer = _issuer;
+        trustedForwarder = _trustedForwarder;
+        emit IssuerChanged(address(0), _issuer);
+    }
+
+    /**
+     * @notice Returns the registry interface version
+     * @return Always 3: the v2 reads with an attested `issueCredential`
+     */
+    function version() public pure returns (uint256) {
+        return 3;
+    }
+
+    /**
+     * @notice Rotates the issuer key
+     * @param _issuer The new issuer address
+     */
+    function setIssuer(address _issuer) public {
+        require(msg.sender == owner, "SkulAttestedRegistry: not owner");
+        require(_issuer != address(0), "SkulAttestedRegistry: zero issuer");
+        emit IssuerChanged(issuer, _issuer);
+        issuer = _issuer;
+    }
+
+    /**
+     * @notice Returns the EIP-712 domain separator for this chain and contract
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes("SkulAttestedRegistry")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @notice Issues an attested Proof-of-Skill credential to the caller
+     * @param _fid The Farcaster ID of the user
+     * @param _skillName The name of the skill/category being certified
+     * @param _challengeId The id of the challenge that was passed
+     * @param _score The score the issuer gave the answer, out of 100
+     * @param _credentialHash The credential number derived from the credential inputs
+     * @param _nonce The single-use nonce chosen by the issuer
+     * @param _expiry The unix time after which the attestation is no longer accepted
+     * @param _signature The issuer's 65-byte EIP-712 signature over the attestation
+     * @dev The attestation is bound to the caller (the signing user when relayed), so it can't be
+     *      replayed from another wallet.
+     */
+    function issueCredential(
+        uint256 _fid,
+        string memory _skillName,
+        string memory _challengeId,
+        uint8 _score,
+        bytes32 _credentialHash,
+        uint256 _nonce,
+        uint256 _expiry,
+        bytes memory _signature
+    ) public {
+        require(block.timestamp <= _expiry, "SkulAttestedRegistry: attestation expired");
+        require(!usedNonces[_nonce], "SkulAttestedRegistry: nonce already used");
+        require(_score <= 100, "SkulAttestedRegistry: score out of range");
+        require(_credentialHash != bytes32(0), "SkulAttestedRegistry: missing credential hash");
+        require(credentialHolder[_credentialHash] == address(0), "SkulAttestedRegistry: credential already issued");
+
+        address user = _msgSender();
+        bytes32 structHash = keccak256(
+            abi.encode(
+                ATTESTATION_TYPEHASH,
+                user,
+                _fid,
+                keccak256(bytes(_skillName)),
+                keccak256(bytes(_challengeId)),
+                _score,
+                _credentialHash,
+                _nonce,
+                _expiry
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(_recover(digest, _signature) == issuer, "SkulAttestedRegistry: invalid issuer signature");
+
+        usedNonces[_nonce] = true;
+        credentialHolder[_credentialHash] = user;
+        userCredentials[user].push(
+            Credential({
+                fid: _fid,
+                skillName: _skillName,
+                challengeId: _challengeId,
+                score: _score,
+                credentialHash: _credentialHash,
+                completedAt: block.timestamp
+            })
+        );
+
+        emit CredentialIssued(user, _fid, _skillName, _challengeId, _score, _credentialHash, block.timestamp);
+    }
+
+    /**
+     * @notice Returns the total number of credentials for a given user
+     */
+    function getCredentialCount(address _user) public view returns (uint256) {
+        return userCredentials[_user].length;
+    }
+
+    /**
+     * @notice Returns a specific credential for a user by index
+     * @dev Reverts if index is out of bounds
+     */
+    function getCredential(address _user, uint256 _index) public view returns (Credential memory) {
+        return userCredentials[_user][_index];
+    }
+
+    /**
+     * @notice ERC-2771: whether calls from `forwarder` carry the user's address
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /// @dev The relayed user when called through the trusted forwarder, msg.sender otherwise
+    function _msgSender() internal view returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    /// @dev Recovers the signer of a digest, rejecting malleable (high-s) signatures
+    function _recover(bytes32 digest, bytes memory signature) private pure returns (address signer) {
+        require(signature.length == 65, "SkulAttestedRegistry: invalid signature length");
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(signature, 0x20))
+            s := mload(add(signature, 0x40))
+            v := byte(0, mload(add(signature, 0x60)))
+        }
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "SkulAttestedRegistry: invalid signature"
+        );
+
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "SkulAttestedRegistry: invalid signature");
+    }
+}
@@ -0,0 +1,398 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SkulBadge
+ * @author SKÜL Team
+ * @notice Soulbound ERC-721 Proof-of-Skill badges with fully onchain certificate metadata.
+ * @dev Every credential is minted as a non-transferable token (ERC-5192) whose `tokenURI`
+ *      is base64 JSON with an SVG certificate. The contract also implements the
+ *      SkulRegistryV2 interface (`issueCredential`, `getCredentialCount`, `getCredential`,
+ *      `credentialHolder`, `version()` and the `CredentialIssued` event), so clients and
+ *      indexers that read a v2 registry work against it unchanged. Calls relayed through
+ *      the trusted ERC-2771 forwarder (see SkulForwarder) mint to the signing user.
+ */
+contract SkulBadge {
+    /**
+     * @notice Represents a single Proof-of-Skill credential
+     * @param fid The user's Farcaster ID (FID)
+     * @param skillName The name of the skill/category (e.g., "Business English")
+     * @param challengeId The id of the challenge that was passed (e.g., "email-1")
+     * @param score The score the answer earned, out of 100
+     * @param credentialHash The credential number derived off-chain from the credential inputs
+     * @param completedAt The block timestamp when the credential was issued
+     */
+    struct Credential {
+        uint256 fid;
+        string skillName;
+        string challengeId;
+        uint8 score;
+        bytes32 credentialHash;
+        uint256 completedAt;
+    }
+
+    string public constant name = unicode"SKÜL Proof of Skill";
+    string public constant symbol = "SKUL";
+
+    string private constant BASE64_TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+    /// @notice The number of badges minted; token ids start at 1
+    uint256 public totalSupply;
+
+    /// @notice Maps a credential hash to the wallet it was issued to
+    mapping(bytes32 => address) public credentialHolder;
+
+    /// @notice The ERC-2771 forwarder allowed to relay calls for users; the zero address disables relaying
+    address public immutable trustedForwarder;
+
+    mapping(uint256 => Credential) private badges;
+    mapping(uint256 => address) private owners;
+    mapping(address => uint256[]) private tokensOf;
+
+    /// @notice ERC-721 transfer event, only ever emitted for mints
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+
+    /// @notice ERC-5192: emitted once per token, which is locked from the moment it is minted
+    event Locked(uint256 tokenId);
+
+    /**
+     * @notice Emitted when a new credential is issued to a user
+     * @dev Same signature as SkulRegistryV2 so existing indexers pick it up
+     */
+    event CredentialIssued(
+        address indexed user,
+        uint256 indexed fid,
+        string skillName,
+        string challengeId,
+        uint8 score,
+        bytes32 indexed credentialHash,
+        uint256 timestamp
+    );
+
+    /**
+     * @param _trustedForwarder The ERC-2771 forwarder for sponsored mints, or the zero address
+     */
+    constructor(address _trustedForwarder) {
+        trustedForwarder = _trustedForwarder;
+    }
+
+    /**
+     * @notice Returns the registry interface version this contract implements
+     */
+    function version() public pure returns (uint256) {
+        return 2;
+    }
+
+    /**
+     * @notice Issues a credential to the caller and mints its soulbound badge
+     * @param _fid The Farcaster ID of the user
+     * @param _skillName The name of the skill/category being certified
+     * @param _challengeId The id of the challenge that was passed
+     * @param _score The score the answer earned, out of 100
+     * @param _credentialHash The credential number derived from the credential inputs
+     * @return tokenId The id of the minted badge
+     * @custom:security Anyone can call this; badges are only ever minted to msg.sender,
+     *                  or to the signing user when relayed by the trusted forwarder.
+     */
+    function issueCredential(
+        uint256 _fid,
+        string memory _skillName,
+        string memory _challengeId,
+        uint8 _score,
+        bytes32 _credentialHash
+    ) public returns (uint256 tokenId) {
+        require(_score <= 100, "SkulBadge: score out of range");
+        require(_credentialHash != bytes32(0), "SkulBadge: missing credential hash");
+        require(credentialHolder[_credentialHash] == address(0), "SkulBadge: credential already issued");
+
+        address user = _msgSender();
+        tokenId = ++totalSupply;
+        badges[tokenId] = Credential({
+            fid: _fid,
+            skillName: _skillName,
+            challengeId: _challengeId,
+            score: _score,
+            credentialHash: _credentialHash,
+            completedAt: block.timestamp
+        });
+        owners[tokenId] = user;
+        tokensOf[user].push(tokenId);
+        credentialHolder[_credentialHash] = user;
+
+        emit Transfer(address(0), user, tokenId);
+        emit Locked(tokenId);
+        emit CredentialIssued(user, _fid, _skillName, _challengeId, _score, _credentialHash, block.timestamp);
+    }
+
+    // ---------------------------------------------------------------------
+    // SkulRegistryV2 reads
+    // ---------------------------------------------------------------------
+
+    /**
+     * @notice Returns the total number of credentials for a given user
+     */
+    function getCredentialCount(address _user) public view returns (uint256) {
+        return tokensOf[_user].length;
+    }
+
+    /**
+     * @notice Returns a specific credential for a user by index
+     * @dev Reverts if index is out of bounds
+     */
+    function getCredential(address _user, uint256 _index) public view returns (Credential memory) {
+        return badges[tokensOf[_user][_index]];
+    }
+
+    /**
+     * @notice Returns the badge token id of a user's credential by index
+     * @dev Reverts if index is out of bounds
+     */
+    function tokenOfOwnerByIndex(address _owner, uint256 _index) public view returns (uint256) {
+        return tokensOf[_owner][_index];
+    }
+
+    // ---------------------------------------------------------------------
+    // ERC-2771
+    // ---------------------------------------------------------------------
+
+    /**
+     * @notice ERC-2771: whether calls from `forwarder` carry the user's address
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /// @dev The relayed user when called through the trusted forwarder, msg.sender otherwise
+    function _msgSender() internal view returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    // ---------------------------------------------------------------------
+    // ERC-721 / ERC-5192
+    // ---------------------------------------------------------------------
+
+    function supportsInterface(bytes4 interfaceId) public pure returns (bool) {
+        return
+            interfaceId == 0x01ffc9a7 || // ERC-165
+            interfaceId == 0x80ac58cd || // ERC-721
+            interfaceId == 0x5b5e139f || // ERC-721 Metadata
+            interfaceId == 0xb45a3c0e; // ERC-5192
+    }
+
+    function balanceOf(address owner) public view returns (uint256) {
+        require(owner != address(0), "SkulBadge: zero address");
+        return tokensOf[owner].length;
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address owner) {
+        owner = owners[tokenId];
+        require(owner != address(0), "SkulBadge: nonexistent token");
+    }
+
+    /// @notice ERC-5192: every badge is permanently locked to the wallet it was minted to
+    function locked(uint256 tokenId) public view returns (bool) {
+        ownerOf(tokenId);
+        return true;
+    }
+
+    function getApproved(uint256 tokenId) public view returns (address) {
+        ownerOf(tokenId);
+        return address(0);
+    }
+
+    function isApprovedForAll(address, address) public pure returns (bool) {
+        return false;
+    }
+
+    function approve(address, uint256) public pure {
+        revert("SkulBadge: soulbound");
+    }
+
+    function setApprovalForAll(address, bool) public pure {
+        revert("SkulBadge: soulbound");
+    }
+
+    function transferFrom(address, address, uint256) public pure {
+        revert("SkulBadge: soulbound");
+    }
+
+    function safeTransferFrom(address, address, uint256) public pure {
+        revert("SkulBadge: soulbound");
+    }
+
+    function safeTransferFrom(address, address, uint256, bytes memory) public pure {
+        revert("SkulBadge: soulbound");
+    }
+
+    /**
+     * @notice Returns the badge metadata as a base64 JSON data URI
+     * @dev The image is an SVG certificate showing the FID, category, credential number and date
+     */
+    function tokenURI(uint256 tokenId) public view returns (string memory) {
+        ownerOf(tokenId);
+        Credential memory credential = badges[tokenId];
+
+        string memory json = string.concat(
+            '{"name":"',
+            _escape(credential.skillName, true),
+            " Certificate #",
+            _toString(tokenId),
+            '","description":"Soulbound Proof-of-Skill credential issued by SKUL.","image":"data:image/svg+xml;base64,',
+            _base64(bytes(_renderCertificate(credential))),
+            '","attributes":',
+            _renderAttributes(credential),
+            "}"
+        );
+
+        return string.concat("data:application/json;base64,", _base64(bytes(json)));
+    }
+
+    // ---------------------------------------------------------------------
+    // Metadata rendering
+    // ---------------------------------------------------------------------
+
+    function _renderCertificate(Credential memory credential) private pure returns (string memory) {
+        string memory credentialNumber = _toHexString(credential.credentialHash);
+
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="260" viewBox="0 0 400 260">',
+            '<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#6366f1"/><stop offset="1" stop-color="#9333ea"/></linearGradient></defs>',
+            '<rect x="1" y="1" width="398" height="258" rx="16" fill="#0A0A0B" stroke="url(#g)" stroke-width="2"/>',
+            '<text x="24" y="40" fill="#a1a1aa" font-family="sans-serif" font-size="11" font-weight="bold" letter-spacing="1.5">DIGITAL CERTIFICATE</text>',
+            '<circle cx="364" cy="36" r="14" fill="url(#g)"/>',
+            '<text x="24" y="76" fill="#a1a1aa" font-family="sans-serif" font-size="10">FARCASTER ID</text>',
+            '<text x="24" y="98" fill="#ffffff" font-family="sans-serif" font-size="20" font-weight="bold">',
+            _toString(credential.fid),
+            "</text>",
+            '<text x="24" y="128" fill="#a1a1aa" font-family="sans-serif" font-size="10">CATEGORY</text>',
+            '<text x="24" y="148" fill="#ffffff" font-family="sans-serif" font-size="16" font-weight="bold">',
+            _escape(credential.skillName, false),
+            "</text>",
+            '<text x="24" y="178" fill="#a1a1aa" font-family="sans-serif" font-size="10">CREDENTIAL NUMBER</text>',
+            '<text x="24" y="196" fill="#d4d4d8" font-family="monospace" font-size="8.5">#',
+            credentialNumber,
+            "</text>",
+            '<text x="24" y="232" fill="#a1a1aa" font-family="sans-serif" font-size="10">ISSUED ',
+            _formatDate(credential.completedAt),
+            "</text>",
+            '<text x="376" y="232" fill="#818cf8" font-family="sans-serif" font-size="12" font-weight="bold" text-anchor="end">',
+            unicode"SKÜL",
+            "</text></svg>"
+        );
+    }
+
+    function _renderAttributes(Credential memory credential) private pure returns (string memory) {
+        return string.concat(
+            '[{"trait_type":"Farcaster ID","value":"',
+            _toString(credential.fid),
+            '"},{"trait_type":"Category","value":"',
+            _escape(credential.skillName, true),
+            '"},{"trait_type":"Challenge","value":"',
+            _escape(credential.challengeId, true),
+            '"},{"trait_type":"Score","display_type":"number","value":',
+            _toString(credential.score),
+            '},{"trait_type":"Credential Number","value":"',
+            _toHexString(credential.credentialHash),
+            '"},{"trait_type":"Issued","display_type":"date","value":',
+            _toString(credential.completedAt),
+            "}]"
+        );
+    }
+
+    // ---------------------------------------------------------------------
+    // String helpers
+    // ---------------------------------------------------------------------
+
+    function _toString(uint256 value) private pure returns (string memory) {
+        if (value == 0) return "0";
+
+        uint256 digits;
+        for (uint256 temp = value; temp != 0; temp /= 10) {
+            digits++;
+        }
+
+        bytes memory buffer = new bytes(digits);
+        for (; value != 0; value /= 10) {
+            buffer[--digits] = bytes1(uint8(48 + (value % 10)));
+        }
+        return string(buffer);
+    }
+
+    function _toHexString(bytes32 value) private pure returns (string memory) {
+        bytes memory hexDigits = "0123456789abcdef";
+        bytes memory buffer = new bytes(66);
+        buffer[0] = "0";
+        buffer[1] = "x";
+        for (uint256 i = 0; i < 32; i++) {
+            buffer[2 + i * 2] = hexDigits[uint8(value[i]) >> 4];
+            buffer[3 + i * 2] = hexDigits[uint8(value[i]) & 0x0f];
+        }
+        return string(buffer);
+    }
+
+    function _pad2(uint256 value) private pure returns (string memory) {
+        return value < 10 ? string.concat("0", _toString(value)) : _toString(value);
+    }
+
+    /// @dev Formats a unix timestamp as YYYY-MM-DD (UTC), using Howard Hinnant's civil-from-days algorithm
+    function _formatDate(uint256 timestamp) private pure returns (string memory) {
+        uint256 z = timestamp / 86400 + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 day = doy - (153 * mp + 2) / 5 + 1;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+        return string.concat(_toString(year), "-", _pad2(month), "-", _pad2(day));
+    }
+
+    /// @dev Escapes user-supplied text for a JSON string (`json` true) or SVG text content
+    function _escape(string memory value, bool json) private pure returns (string memory) {
+        bytes memory input = bytes(value);
+        bytes memory output;
+        for (uint256 i = 0; i < input.length; i++) {
+            output = bytes.concat(output, _escapeChar(input[i], json));
+        }
+        return string(output);
+    }
+
+    function _escapeChar(bytes1 char, bool json) private pure returns (bytes memory) {
+        if (json) {
+            if (char == '"') return '\\"';
+            if (char == "\\") return "\\\\";
+            if (uint8(char) < 0x20) return " ";
+        } else {
+            if (char == "&") return "&amp;";
+            if (char == "<") return "&lt;";
+            if (char == ">") return "&gt;";
+            if (char == '"') return "&quot;";
+            if (char == "'") return "&#39;";
+        }
+        return abi.encodePacked(char);
+    }
+
+    function _base64(bytes memory data) private pure returns (string memory) {
+        if (data.length == 0) return "";
+
+        bytes memory table = bytes(BASE64_TABLE);
+        bytes memory result = new bytes(4 * ((data.length + 2) / 3));
+        uint256 j;
+        for (uint256 i = 0; i < data.length; i += 3) {
+            uint256 a = uint8(data[i]);
+            uint256 b = i + 1 < data.length ? uint8(data[i + 1]) : 0;
+            uint256 c = i + 2 < data.length ? uint8(data[i + 2]) : 0;
+            uint256 triple = (a << 16) | (b << 8) | c;
+
+            result[j++] = table[(triple >> 18) & 63];
+            result[j++] = table[(triple >> 12) & 63];
+            result[j++] = i + 1 < data.length ? table[(triple >> 6) & 63] : bytes1("=");
+            result[j++] = i + 2 < data.length ? table[triple & 63] : bytes1("=");
+        }
+        return string(result);
+    }
+}
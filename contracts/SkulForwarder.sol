@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SkulForwarder
+ * @author SKÜL Team
+ * @notice An ERC-2771 forwarder that lets a sponsored relayer pay the gas for a user's call.
+ * @dev The user signs an EIP-712 `ForwardRequest`; anyone can submit it with `execute`, which
+ *      calls the target with the user's address appended to the calldata. Targets that trust
+ *      this forwarder (SkulRegistryV2, SkulBadge, SkulAttestedRegistry) read the user from there.
+ */
+contract SkulForwarder {
+    /**
+     * @notice A call signed by `from` for a relayer to submit
+     * @param from The user the call is made on behalf of
+     * @param to The target contract
+     * @param value Wei to send with the call (paid by the relayer)
+     * @param gas The gas limit for the inner call
+     * @param nonce Must equal `getNonce(from)`; incremented on execution
+     * @param deadline The unix time after which the request can't be executed
+     * @param data The calldata for the target
+     */
+    struct ForwardRequest {
+        address from;
+        address to;
+        uint256 value;
+        uint256 gas;
+        uint256 nonce;
+        uint256 deadline;
+        bytes data;
+    }
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    bytes32 public constant FORWARD_REQUEST_TYPEHASH =
+        keccak256(
+            "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint256 deadline,bytes data)"
+        );
+
+    mapping(address => uint256) private nonces;
+
+    /// @notice Emitted for every executed request
+    event Executed(address indexed from, address indexed to, uint256 nonce);
+
+    /**
+     * @notice Returns the next nonce `from` must sign
+     */
+    function getNonce(address from) public view returns (uint256) {
+        return nonces[from];
+    }
+
+    /**
+     * @notice Returns the EIP-712 domain separator for this chain and contract
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes("SkulForwarder")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @notice Checks that a request is signed by `req.from` and carries its current nonce
+     */
+    function verify(ForwardRequest calldata req, bytes calldata signature) public view returns (bool) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                FORWARD_REQUEST_TYPEHASH,
+                req.from,
+                req.to,
+                req.value,
+                req.gas,
+                req.nonce,
+                req.deadline,
+                keccak256(req.data)
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        address signer = _recover(digest, signature);
+        return signer != address(0) && signer == req.from && nonces[req.from] == req.nonce;
+    }
+
+    /**
+     * @notice Executes a signed request on behalf of `req.from`
+     * @return The target's return data
+     * @dev Reverts with the target's revert reason if the inner call fails, so a relayer's
+     *      simulation surfaces it and the nonce is not consumed.
+     */
+    function execute(ForwardRequest calldata req, bytes calldata signature) public payable returns (bytes memory) {
+        require(block.timestamp <= req.deadline, "SkulForwarder: request expired");
+        require(msg.value == req.value, "SkulForwarder: value mismatch");
+        require(verify(req, signature), "SkulForwarder: signature does not match request");
+
+        nonces[req.from] = req.nonce + 1;
+
+        (bool success, bytes memory result) = req.to.call{gas: req.gas, value: req.value}(
+            abi.encodePacked(req.data, req.from)
+        );
+
+        // Make sure the relayer forwarded enough gas for the inner call (EIP-150 keeps 1/64 back)
+        if (gasleft() <= req.gas / 63) {
+            assembly {
+                invalid()
+            }
+        }
+        if (!success) {
+            assembly {
+                revert(add(result, 0x20), mload(result))
+            }
+        }
+
+        emit Executed(req.from, req.to, req.nonce);
+        return result;
+    }
+
+    /// @dev Recovers the signer of a digest, returning the zero address for malformed or malleable signatures
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+
+        return ecrecover(digest, v, r, s);
+    }
+}
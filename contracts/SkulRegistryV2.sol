@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SkulRegistryV2
+ * @author SKÜL Team
+ * @notice A public registry for Proof-of-Skill credentials issued by the SKÜL EdTech platform.
+ * @dev Extends SkulRegistry with the challenge id, score and credential hash of each
+ *      credential. Keeps the v1 read interface (`getCredentialCount`, `getCredential`)
+ *      and exposes `version()` so clients can tell the two apart. Calls relayed through
+ *      the trusted ERC-2771 forwarder (see SkulForwarder) are credited to the signing user.
+ */
+contract SkulRegistryV2 {
+    /**
+     * @notice Represents a single Proof-of-Skill credential
+     * @param fid The user's Farcaster ID (FID)
+     * @param skillName The name of the skill/category (e.g., "Business English")
+     * @param challengeId The id of the challenge that was passed (e.g., "email-1")
+     * @param score The score the answer earned, out of 100
+     * @param credentialHash The credential number derived off-chain from the credential inputs
+     * @param completedAt The block timestamp when the credential was issued
+     */
+    struct Credential {
+        uint256 fid;
+        string skillName;
+        string challengeId;
+        uint8 score;
+        bytes32 credentialHash;
+        uint256 completedAt;
+    }
+
+    /**
+     * @notice Maps user wallet addresses to their list of credentials
+     * @dev Public mapping allows automatic getter function generation
+     */
+    mapping(address => Credential[]) public userCredentials;
+
+    /**
+     * @notice Maps a credential hash to the wallet it was issued to
+     * @dev Lets anyone holding a credential number look up its owner; also prevents reuse
+     */
+    mapping(bytes32 => address) public credentialHolder;
+
+    /// @notice The ERC-2771 forwarder allowed to relay calls for users; the zero address disables relaying
+    address public immutable trustedForwarder;
+
+    /**
+     * @notice Emitted when a new credential is issued to a user
+     * @param user The wallet address of the user receiving the credential
+     * @param fid The Farcaster ID associated with the credential
+     * @param skillName The name of the skill/category
+     * @param challengeId The id of the challenge that was passed
+     * @param score The score the answer earned, out of 100
+     * @param credentialHash The credential number
+     * @param timestamp The block timestamp when the credential was issued
+     * @dev `user`, `fid` and `credentialHash` are indexed for efficient event filtering
+     */
+    event CredentialIssued(
+        address indexed user,
+        uint256 indexed fid,
+        string skillName,
+        string challengeId,
+        uint8 score,
+        bytes32 indexed credentialHash,
+        uint256 timestamp
+    );
+
+    /**
+     * @param _trustedForwarder The ERC-2771 forwarder for sponsored mints, or the zero address
+     */
+    constructor(address _trustedForwarder) {
+        trustedForwarder = _trustedForwarder;
+    }
+
+    /**
+     * @notice Returns the registry interface version
+     * @return Always 2 for this contract; v1 registries don't implement it
+     */
+    function version() public pure returns (uint256) {
+        return 2;
+    }
+
+    /**
+     * @notice Issues a new Proof-of-Skill credential to the caller
+     * @param _fid The Farcaster ID of the user
+     * @param _skillName The name of the skill/category being certified
+     * @param _challengeId The id of the challenge that was passed
+     * @param _score The score the answer earned, out of 100
+     * @param _credentialHash The credential number derived from the credential inputs
+     * @dev Reverts if the score is above 100 or the credential hash was already issued.
+     *      Uses block.timestamp for the completion time. Emits CredentialIssued event.
+     * @custom:security This function is public and can be called by anyone.
+     *                 Users can only issue credentials to their own address (msg.sender,
+     *                 or the signing user when relayed by the trusted forwarder).
+     */
+    function issueCredential(
+        uint256 _fid,
+        string memory _skillName,
+        string memory _challengeId,
+        uint8 _score,
+        bytes32 _credentialHash
+    ) public {
+        require(_score <= 100, "SkulRegistryV2: score out of range");
+        require(_credentialHash != bytes32(0), "SkulRegistryV2: missing credential hash");
+        require(credentialHolder[_credentialHash] == address(0), "SkulRegistryV2: credential already issued");
+
+        address user = _msgSender();
+        Credential memory newCredential = Credential({
+            fid: _fid,
+            skillName: _skillName,
+            challengeId: _challengeId,
+            score: _score,
+            credentialHash: _credentialHash,
+            completedAt: block.timestamp
+        });
+
+        // Add credential to the caller's list and record who holds the hash
+        userCredentials[user].push(newCredential);
+        credentialHolder[_credentialHash] = user;
+
+        // Emit event for frontend indexing and notifications
+        emit CredentialIssued(
+            user,
+            _fid,
+            _skillName,
+            _challengeId,
+            _score,
+            _credentialHash,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Returns the total number of credentials for a given user
+     * @param _user The wallet address to query
+     * @return The number of credentials the user has
+     * @dev Helper function for frontend to determine array length before fetching
+     */
+    function getCredentialCount(address _user) public view returns (uint256) {
+        return userCredentials[_user].length;
+    }
+
+    /**
+     * @notice Returns a specific credential for a user by index
+     * @param _user The wallet address to query
+     * @param _index The index of the credential in the user's array
+     * @return The Credential struct at the specified index
+     * @dev Reverts if index is out of bounds (Solidity 0.8+ automatic bounds checking)
+     */
+    function getCredential(
+        address _user,
+        uint256 _index
+    ) public view returns (Credential memory) {
+        return userCredentials[_user][_index];
+    }
+
+    /**
+     * @notice ERC-2771: whether calls from `forwarder` carry the user's address
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /// @dev The relayed user when called through the trusted forwarder, msg.sender otherwise
+    function _msgSender() internal view returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+}
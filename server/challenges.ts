@@ -0,0 +1,33 @@
+/**
+ * Challenge Pack Loading (server)
+ * Reads the bundled challenge packs from disk into the shared challenge registry
+ */
+
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { registerChallengePack } from '../src/utils/challenges'
+import { validateChallengePack } from '../src/utils/packs'
+
+/**
+ * Loads every pack listed in `<directory>/index.json`
+ * @returns Validation and registration errors, which are logged but not fatal
+ */
+export async function loadChallengePacksFromDisk(directory: string): Promise<string[]> {
+  const errors: string[] = []
+  const manifest = JSON.parse(await readFile(join(directory, 'index.json'), 'utf8')) as { packs: string[] }
+
+  for (const file of manifest.packs) {
+    try {
+      const { pack, errors: packErrors } = validateChallengePack(
+        JSON.parse(await readFile(join(directory, file), 'utf8')),
+        file
+      )
+      errors.push(...packErrors)
+      if (pack) registerChallengePack(pack)
+    } catch (error) {
+      errors.push(`${file}: failed to load (${(error as Error).message})`)
+    }
+  }
+
+  return errors
+}
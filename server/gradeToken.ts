@@ -0,0 +1,48 @@
+/**
+ * Grade Tokens
+ * HMAC-signed claims that the grading service scored an answer, so other
+ * services can trust a grade without re-scoring it.
+ * Format: base64url(JSON claims) + '.' + base64url(HMAC-SHA256(claims))
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+export interface GradeClaims {
+  fid: number
+  challengeId: string
+  answerDigest: `0x${string}` // see digestAnswer in src/utils/badge.ts
+  score: number
+  passed: boolean
+  grader: string // name of the grader that produced the score
+  iat: number // unix seconds
+  exp: number // unix seconds
+}
+
+function sign(encodedClaims: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(encodedClaims).digest()
+}
+
+export function createGradeToken(claims: GradeClaims, secret: string): string {
+  const encodedClaims = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${encodedClaims}.${sign(encodedClaims, secret).toString('base64url')}`
+}
+
+/**
+ * Checks a grade token's signature and expiry
+ * @returns The claims, or null if the token is malformed, forged or expired
+ */
+export function verifyGradeToken(token: string, secret: string, now: number = Date.now()): GradeClaims | null {
+  const [encodedClaims, encodedSignature, ...rest] = token.split('.')
+  if (!encodedClaims || !encodedSignature || rest.length > 0) return null
+
+  const expected = sign(encodedClaims, secret)
+  const signature = Buffer.from(encodedSignature, 'base64url')
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8')) as GradeClaims
+    return claims.exp * 1000 > now ? claims : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Server-side Grading
+ * Scores answers with the same graders and challenge registry as the app and
+ * signs the outcome as a grade token
+ */
+
+import { getChallengeById } from '../src/utils/challenges'
+import { createLlmGrader, createRuleBasedGrader, type Grader, type GradeResponse } from '../src/utils/grader'
+import { digestAnswer } from '../src/utils/badge'
+import { createGradeToken, type GradeClaims } from './gradeToken'
+
+export interface GradingRequest {
+  fid: number
+  challengeId: string
+  answer: string
+}
+
+export interface GradingServiceOptions {
+  tokenSecret: string
+  tokenTtlSeconds: number
+  llm?: { baseUrl: string; model: string; apiKey?: string; timeoutMs?: number }
+}
+
+export interface GradingService {
+  /** @throws if the challenge is unknown */
+  grade(request: GradingRequest): Promise<GradeResponse & { claims: GradeClaims }>
+}
+
+export function createGradingService(options: GradingServiceOptions): GradingService {
+  const rules = createRuleBasedGrader()
+  const llm = options.llm ? createLlmGrader({ ...options.llm, fallback: rules }) : null
+
+  return {
+    async grade(request) {
+      const challenge = getChallengeById(request.challengeId)
+      if (!challenge) {
+        throw new Error(`Unknown challenge "${request.challengeId}"`)
+      }
+
+      const grader: Grader = challenge.grader === 'llm' && llm ? llm : rules
+      const result = await grader.grade({
+        scorer: challenge.scorer,
+        prompt: challenge.prompt,
+        instructions: challenge.instructions,
+        answer: request.answer,
+        scorerConfig: challenge.scorerConfig,
+      })
+
+      const iat = Math.floor(Date.now() / 1000)
+      const claims: GradeClaims = {
+        fid: request.fid,
+        challengeId: challenge.id,
+        answerDigest: digestAnswer(request.answer),
+        score: result.score,
+        passed: result.passed,
+        grader: grader.name,
+        iat,
+        exp: iat + options.tokenTtlSeconds,
+      }
+
+      return { result, gradeToken: createGradeToken(claims, options.tokenSecret), claims }
+    },
+  }
+}
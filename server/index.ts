@@ -0,0 +1,489 @@
+/**
+ * SKÜL Service
+ * Grades answers with the shared scorers (`POST /grade`), signs EIP-712
+ * attestations that a SkulAttestedRegistry accepts when an issuer key is
+ * configured (`POST /attest`), relays sponsored mints through the
+ * SkulForwarder when a relayer key is configured (`POST /relay`), and serves
+ * certificate images and link previews for verification pages when APP_URL
+ * is set (`GET /certificate/...`, `GET /verify/...`)
+ *
+ * Environment:
+ *   PORT                    port to listen on (default 8787)
+ *   ALLOWED_ORIGIN          CORS origin allowed to call the service (default *)
+ *   GRADE_TOKEN_SECRET      HMAC key for grade tokens (random per process if unset)
+ *   GRADE_TOKEN_TTL_SECONDS how long a grade token is valid (default 3600)
+ *   RATE_LIMIT              requests per FID and per IP address per window (default 10)
+ *   RATE_LIMIT_WINDOW_MS    rate limit window (default 60000)
+ *   LLM_GRADER_BASE_URL     OpenAI-compatible grader for challenges that opt in
+ *   LLM_GRADER_MODEL, LLM_GRADER_API_KEY, LLM_GRADER_TIMEOUT_MS
+ *   ISSUER_PRIVATE_KEY      key of the registry's issuer address (enables /attest)
+ *   REGISTRY_ADDRESS        the SkulAttestedRegistry the attestations are for
+ *   CHAIN_ID                chain the registry is deployed on (default 1946, Soneium Minato)
+ *   RELAYER_PRIVATE_KEY     funded key that pays for sponsored mints (enables /relay)
+ *   FORWARDER_ADDRESS       the SkulForwarder the registry trusts
+ *   RELAY_REGISTRY_ADDRESS  registry sponsored mints may call (default REGISTRY_ADDRESS)
+ *   RPC_URL                 RPC for submitting relayed transactions (default the chain's public RPC)
+ *   RELAY_QUOTA             sponsored mints per wallet per window (default 3)
+ *   RELAY_BUDGET            sponsored mints across all wallets per window (default 100)
+ *   RELAY_QUOTA_WINDOW_MS   quota and budget window (default 86400000, one day)
+ *   APP_URL                 the app's public origin (enables /certificate and /verify)
+ *   SHARE_REGISTRY_ADDRESS  registry credentials are read from (default REGISTRY_ADDRESS)
+ *   APP_INDEX_HTML          the built app's index.html (default dist/index.html)
+ */
+
+import { randomBytes } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { fileURLToPath } from 'node:url'
+import { BaseError, createPublicClient, http, isAddress, isHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { createIssuer, type Issuer } from '../src/utils/attestation'
+import { createChainTransport, HARDHAT_LOCAL, SONEIUM, SONEIUM_MINATO } from '../src/utils/chains'
+import { createRelayer, type Relayer, type SignedForwardRequest } from '../src/utils/relayer'
+import { loadChallengePacksFromDisk } from './challenges'
+import { verifyGradeToken } from './gradeToken'
+import { createGradingService } from './grading'
+import { log, type LogFields } from './log'
+import { createShareService, type ShareService } from './share'
+import { createRateLimiter, takeAll } from '../src/utils/rateLimit'
+
+const MAX_BODY_BYTES = 64 * 1024
+const MAX_ANSWER_LENGTH = 10000
+
+type HttpError = Error & { status: number; headers?: Record<string, string> }
+
+function httpError(status: number, message: string, headers?: Record<string, string>): HttpError {
+  return Object.assign(new Error(message), { status, headers })
+}
+
+function isHttpError(error: unknown): error is HttpError {
+  return error instanceof Error && typeof (error as HttpError).status === 'number'
+}
+
+function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(httpError(413, 'Request body too large'))
+        request.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    request.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          reject(httpError(400, 'Expected a JSON object'))
+          return
+        }
+        resolve(body)
+      } catch {
+        reject(httpError(400, 'Request body must be JSON'))
+      }
+    })
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { ...headers, 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+function readFid(body: Record<string, unknown>): number {
+  const { fid } = body
+  if (typeof fid !== 'number' || !Number.isSafeInteger(fid) || fid < 0) {
+    throw httpError(400, 'fid: expected a non-negative integer')
+  }
+  return fid
+}
+
+function readChallengeId(body: Record<string, unknown>): string {
+  const { challengeId } = body
+  if (typeof challengeId !== 'string' || challengeId.length === 0) {
+    throw httpError(400, 'challengeId: expected a non-empty string')
+  }
+  return challengeId
+}
+
+function readAnswer(body: Record<string, unknown>): string {
+  const { answer } = body
+  if (typeof answer !== 'string' || answer.length > MAX_ANSWER_LENGTH) {
+    throw httpError(400, `answer: expected a string of at most ${MAX_ANSWER_LENGTH} characters`)
+  }
+  return answer
+}
+
+function readUser(body: Record<string, unknown>): `0x${string}` {
+  const { user } = body
+  if (typeof user !== 'string' || !isAddress(user)) {
+    throw httpError(400, 'user: expected an address')
+  }
+  return user
+}
+
+function isUintString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{1,78}$/.test(value)
+}
+
+function readSignedForwardRequest(body: Record<string, unknown>): SignedForwardRequest {
+  const { request, signature } = body
+  if (typeof signature !== 'string' || !isHex(signature)) {
+    throw httpError(400, 'signature: expected hex')
+  }
+  if (typeof request !== 'object' || request === null) {
+    throw httpError(400, 'request: expected a forward request')
+  }
+
+  const { from, to, value, gas, nonce, deadline, data } = request as Record<string, unknown>
+  if (typeof from !== 'string' || !isAddress(from) || typeof to !== 'string' || !isAddress(to)) {
+    throw httpError(400, 'request.from, request.to: expected addresses')
+  }
+  if (!isUintString(value) || !isUintString(gas) || !isUintString(nonce)) {
+    throw httpError(400, 'request.value, request.gas, request.nonce: expected decimal strings')
+  }
+  if (typeof deadline !== 'number' || !Number.isSafeInteger(deadline)) {
+    throw httpError(400, 'request.deadline: expected unix seconds')
+  }
+  if (typeof data !== 'string' || !isHex(data)) {
+    throw httpError(400, 'request.data: expected hex')
+  }
+
+  return { request: { from, to, value, gas, nonce, deadline, data }, signature }
+}
+
+function readTimestamp(body: Record<string, unknown>): number {
+  const { timestamp } = body
+  if (typeof timestamp !== 'number' || !Number.isSafeInteger(timestamp) || timestamp < 0) {
+    throw httpError(400, 'timestamp: expected milliseconds since epoch')
+  }
+  return timestamp
+}
+
+function readGradeToken(body: Record<string, unknown>): string | undefined {
+  const { gradeToken } = body
+  if (gradeToken !== undefined && typeof gradeToken !== 'string') {
+    throw httpError(400, 'gradeToken: expected a string')
+  }
+  return gradeToken
+}
+
+interface AttestationConfig {
+  issuer: Issuer
+  address: `0x${string}`
+  registryAddress: `0x${string}`
+  chainId: number
+}
+
+/**
+ * Builds the issuer from ISSUER_PRIVATE_KEY and REGISTRY_ADDRESS. It accepts
+ * the grade tokens this service signs with `tokenSecret`.
+ * @returns null if neither is set
+ * @throws if only one of them is set, or either is malformed
+ */
+function createAttestationConfig(tokenSecret: string): AttestationConfig | null {
+  const privateKey = process.env.ISSUER_PRIVATE_KEY
+  const registryAddress = process.env.REGISTRY_ADDRESS
+  if (!privateKey && !registryAddress) return null
+  if (!privateKey || !isHex(privateKey) || !registryAddress || !isAddress(registryAddress)) {
+    throw new Error('ISSUER_PRIVATE_KEY and REGISTRY_ADDRESS must be set together')
+  }
+
+  const account = privateKeyToAccount(privateKey)
+  const chainId = Number(process.env.CHAIN_ID) || 1946
+  return {
+    issuer: createIssuer({
+      account,
+      registryAddress,
+      chainId,
+      verifyGradeToken: token => verifyGradeToken(token, tokenSecret),
+    }),
+    address: account.address,
+    registryAddress,
+    chainId,
+  }
+}
+
+interface RelayConfig {
+  relayer: Relayer
+  address: `0x${string}`
+  forwarderAddress: `0x${string}`
+}
+
+/**
+ * Builds the relayer from RELAYER_PRIVATE_KEY and FORWARDER_ADDRESS
+ * @returns null if RELAYER_PRIVATE_KEY isn't set
+ * @throws if the relayer is only partly configured, or CHAIN_ID is unknown
+ */
+function createRelayConfig(): RelayConfig | null {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY
+  if (!privateKey) return null
+
+  const forwarderAddress = process.env.FORWARDER_ADDRESS
+  const registryAddress = process.env.RELAY_REGISTRY_ADDRESS || process.env.REGISTRY_ADDRESS
+  if (!isHex(privateKey) || !forwarderAddress || !isAddress(forwarderAddress) || !registryAddress || !isAddress(registryAddress)) {
+    throw new Error('RELAYER_PRIVATE_KEY needs FORWARDER_ADDRESS and RELAY_REGISTRY_ADDRESS (or REGISTRY_ADDRESS)')
+  }
+
+  const chainId = Number(process.env.CHAIN_ID) || 1946
+  const chain = [SONEIUM, SONEIUM_MINATO, HARDHAT_LOCAL].find(candidate => candidate.id === chainId)
+  if (!chain) {
+    throw new Error(`Unknown CHAIN_ID ${chainId}`)
+  }
+
+  const account = privateKeyToAccount(privateKey)
+  const windowMs = Number(process.env.RELAY_QUOTA_WINDOW_MS) || 24 * 60 * 60 * 1000
+  return {
+    relayer: createRelayer({
+      account,
+      forwarderAddress,
+      registryAddress,
+      chain,
+      rpcUrl: process.env.RPC_URL,
+      quota: { limit: Number(process.env.RELAY_QUOTA) || 3, windowMs },
+      budget: { limit: Number(process.env.RELAY_BUDGET) || 100, windowMs },
+    }),
+    address: account.address,
+    forwarderAddress,
+  }
+}
+
+/**
+ * Builds the share service from APP_URL and SHARE_REGISTRY_ADDRESS
+ * @returns null if APP_URL isn't set
+ * @throws if there is no registry address, or CHAIN_ID is unknown
+ */
+async function createShareConfig(): Promise<ShareService | null> {
+  const appUrl = process.env.APP_URL
+  if (!appUrl) return null
+
+  const registryAddress = process.env.SHARE_REGISTRY_ADDRESS || process.env.REGISTRY_ADDRESS
+  if (!registryAddress || !isAddress(registryAddress)) {
+    throw new Error('APP_URL needs SHARE_REGISTRY_ADDRESS (or REGISTRY_ADDRESS)')
+  }
+
+  const chainId = Number(process.env.CHAIN_ID) || 1946
+  const chain = [SONEIUM, SONEIUM_MINATO, HARDHAT_LOCAL].find(candidate => candidate.id === chainId)
+  if (!chain) {
+    throw new Error(`Unknown CHAIN_ID ${chainId}`)
+  }
+
+  const indexHtmlPath = process.env.APP_INDEX_HTML || fileURLToPath(new URL('../dist/index.html', import.meta.url))
+  return createShareService({
+    appUrl,
+    registryAddress,
+    chainLabel: chain.name,
+    publicClient: createPublicClient({
+      chain,
+      transport: process.env.RPC_URL ? http(process.env.RPC_URL) : createChainTransport(chain),
+    }),
+    indexHtml: await readFile(indexHtmlPath, 'utf8'),
+  })
+}
+
+async function main() {
+  const port = Number(process.env.PORT) || 8787
+  const allowedOrigin = process.env.ALLOWED_ORIGIN || '*'
+
+  const packErrors = await loadChallengePacksFromDisk(
+    fileURLToPath(new URL('../public/challenge-packs', import.meta.url))
+  )
+  for (const error of packErrors) {
+    log('warn', 'challenge pack error', { error })
+  }
+
+  let tokenSecret = process.env.GRADE_TOKEN_SECRET
+  if (!tokenSecret) {
+    tokenSecret = randomBytes(32).toString('hex')
+    log('warn', 'GRADE_TOKEN_SECRET is not set; grade tokens will not survive a restart')
+  }
+
+  const grading = createGradingService({
+    tokenSecret,
+    tokenTtlSeconds: Number(process.env.GRADE_TOKEN_TTL_SECONDS) || 3600,
+    llm: process.env.LLM_GRADER_BASE_URL
+      ? {
+          baseUrl: process.env.LLM_GRADER_BASE_URL,
+          model: process.env.LLM_GRADER_MODEL || 'gpt-4o-mini',
+          apiKey: process.env.LLM_GRADER_API_KEY,
+          timeoutMs: Number(process.env.LLM_GRADER_TIMEOUT_MS) || undefined,
+        }
+      : undefined,
+  })
+
+  const limiter = createRateLimiter({
+    limit: Number(process.env.RATE_LIMIT) || 10,
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60000,
+  })
+
+  const attestation = createAttestationConfig(tokenSecret)
+  const relay = createRelayConfig()
+  const share = await createShareConfig()
+
+  // The FID is only what the body claims, so the client's address is limited too; guests share FID 0
+  const enforceRateLimit = (request: IncomingMessage, fid: number) => {
+    const keys = [`ip:${request.socket.remoteAddress}`, ...(fid > 0 ? [`fid:${fid}`] : [])]
+    const decision = takeAll(limiter, keys)
+    if (!decision.allowed) {
+      const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000)
+      throw httpError(429, `Too many requests, try again in ${retryAfterSeconds}s`, {
+        'Retry-After': String(retryAfterSeconds),
+      })
+    }
+  }
+
+  const server = createServer(async (request, response) => {
+    const startedAt = Date.now()
+    const fields: LogFields = {}
+    response.on('finish', () => {
+      log(response.statusCode >= 500 ? 'error' : 'info', 'request', {
+        method: request.method,
+        path: request.url,
+        status: response.statusCode,
+        durationMs: Date.now() - startedAt,
+        ...fields,
+      })
+    })
+
+    response.setHeader('Access-Control-Allow-Origin', allowedOrigin)
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+
+    try {
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204)
+        response.end()
+      } else if (request.method === 'GET' && request.url === '/health') {
+        sendJson(response, 200, {
+          ok: true,
+          issuer: attestation?.address ?? null,
+          registryAddress: attestation?.registryAddress ?? null,
+          chainId: attestation?.chainId ?? null,
+          relayer: relay?.address ?? null,
+          forwarderAddress: relay?.forwarderAddress ?? null,
+        })
+      } else if (request.method === 'POST' && request.url === '/grade') {
+        const body = await readJson(request)
+        const fid = (fields.fid = readFid(body))
+        const challengeId = (fields.challengeId = readChallengeId(body))
+        const answer = readAnswer(body)
+        enforceRateLimit(request, fid)
+
+        let graded
+        try {
+          graded = await grading.grade({ fid, challengeId, answer })
+        } catch (error) {
+          // Only an unknown challenge throws; graders fall back instead
+          throw httpError(404, (error as Error).message)
+        }
+        fields.score = graded.claims.score
+        fields.passed = graded.claims.passed
+        fields.grader = graded.claims.grader
+        sendJson(response, 200, { result: graded.result, gradeToken: graded.gradeToken })
+      } else if (request.method === 'POST' && request.url === '/attest') {
+        if (!attestation) {
+          throw httpError(404, 'This service is not configured to issue attestations')
+        }
+
+        const body = await readJson(request)
+        const fid = (fields.fid = readFid(body))
+        const challengeId = (fields.challengeId = readChallengeId(body))
+        const attestationRequest = {
+          user: readUser(body),
+          fid,
+          challengeId,
+          answer: readAnswer(body),
+          timestamp: readTimestamp(body),
+          gradeToken: readGradeToken(body),
+        }
+        enforceRateLimit(request, fid)
+
+        try {
+          sendJson(response, 200, await attestation.issuer.attest(attestationRequest))
+        } catch (error) {
+          // Unknown challenge, a bad grade token or a failing answer
+          throw httpError(422, (error as Error).message)
+        }
+      } else if (request.method === 'POST' && request.url === '/relay') {
+        if (!relay) {
+          throw httpError(404, 'This service is not configured to sponsor mints')
+        }
+
+        const signed = readSignedForwardRequest(await readJson(request))
+        fields.from = signed.request.from
+        // Wallets cost nothing to make, so the client's address is limited like the other endpoints
+        enforceRateLimit(request, 0)
+
+        let result
+        try {
+          result = await relay.relayer.relay(signed)
+        } catch (error) {
+          // The forwarder or registry rejected the call in simulation
+          throw httpError(422, error instanceof BaseError ? error.shortMessage : (error as Error).message)
+        }
+        if (!result.success) {
+          if (result.retryAfterMs) {
+            throw httpError(429, result.error ?? 'Quota exceeded', {
+              'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)),
+            })
+          }
+          throw httpError(422, result.error ?? 'The request could not be relayed')
+        }
+        fields.txHash = result.txHash
+        sendJson(response, 200, { txHash: result.txHash })
+      } else if (request.method === 'GET' && share && request.url?.startsWith('/certificate/')) {
+        let image
+        try {
+          image = await share.renderImage(new URL(request.url, 'http://localhost'))
+        } catch (error) {
+          throw httpError(502, `Could not read the credential: ${(error as Error).message}`)
+        }
+        if (!image) {
+          throw httpError(404, 'No such credential')
+        }
+        response.writeHead(200, { 'Content-Type': image.contentType, 'Cache-Control': 'public, max-age=300' })
+        response.end(image.body)
+      } else if (request.method === 'GET' && share && request.url?.startsWith('/verify/')) {
+        // Rendered before the head is written, so a failure can still be answered with an error
+        const page = await share.renderPage(new URL(request.url, 'http://localhost'))
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+        response.end(page)
+      } else {
+        throw httpError(404, 'Not found')
+      }
+    } catch (error) {
+      if (response.headersSent) {
+        // Too late for an error status; writing another head would throw and take the process down
+        fields.error = (error as Error).message
+        response.end()
+      } else if (isHttpError(error)) {
+        fields.error = error.message
+        sendJson(response, error.status, { error: error.message }, error.headers)
+      } else {
+        fields.error = (error as Error).message
+        sendJson(response, 500, { error: 'Internal error' })
+      }
+    }
+  })
+
+  server.listen(port, () => {
+    log('info', 'listening', {
+      port,
+      issuer: attestation?.address,
+      registryAddress: attestation?.registryAddress,
+      chainId: attestation?.chainId,
+      relayer: relay?.address,
+      forwarderAddress: relay?.forwarderAddress,
+    })
+  })
+}
+
+main().catch((error) => {
+  log('error', 'startup failed', { error: (error as Error).message })
+  process.exit(1)
+})
@@ -0,0 +1,15 @@
+/**
+ * Structured Logging
+ * One JSON object per line on stdout, ready for any log collector
+ */
+
+export type LogFields = Record<string, string | number | boolean | null | undefined>
+
+export function log(level: 'info' | 'warn' | 'error', message: string, fields: LogFields = {}): void {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...fields })
+  if (level === 'error') {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Credential Sharing
+ * Serves certificate images and the verification pages' HTML with link
+ * preview tags (Open Graph and the Farcaster mini app embed), both rendered
+ * from the chain rather than from what the shared link claims. Previews use
+ * PNG, since Farcaster embeds and most Open Graph readers don't show SVG.
+ */
+
+import { createRequire } from 'node:module'
+import { dirname, join } from 'node:path'
+import { Resvg } from '@resvg/resvg-js'
+import { TransactionNotFoundError, TransactionReceiptNotFoundError, type PublicClient } from 'viem'
+import { checkCredentialClaim, getCredentials, getIssuedCredentials, type IssuedCredential } from '../src/utils/badge'
+import { getCertificateImage, renderCertificateSvg, type CertificateImage } from '../src/utils/certificate'
+import { parseRoute, type AppRoute } from '../src/utils/router'
+import { log } from './log'
+
+export interface ShareServiceOptions {
+  appUrl: string // the app's public origin, for absolute links in preview tags
+  registryAddress: `0x${string}`
+  chainLabel: string // e.g. "Soneium Minato", shown on certificates
+  publicClient: PublicClient
+  indexHtml: string // the built app's index.html, which verification pages are served as
+}
+
+export type ImageFormat = 'png' | 'svg'
+
+export interface CertificateFile {
+  contentType: string
+  body: string | Uint8Array
+}
+
+export interface ShareService {
+  /**
+   * Renders the certificate for a /certificate/....png or .svg path, the image path of a /verify/... link
+   * @returns null if the path isn't a certificate or the chain has no such credential
+   */
+  renderImage(url: URL): Promise<CertificateFile | null>
+  /**
+   * Returns the app's HTML with preview tags for a /verify/... link, or
+   * unchanged when its credential can't be read
+   */
+  renderPage(url: URL): Promise<string>
+}
+
+type VerifyRoute = Extract<AppRoute, { name: 'verify-address' | 'verify-tx' }>
+
+const CERTIFICATE_PREFIX = '/certificate/'
+const VERIFY_PREFIX = '/verify/'
+const MAX_CACHED_TRANSACTIONS = 500
+
+const CONTENT_TYPES: Record<ImageFormat, string> = { png: 'image/png', svg: 'image/svg+xml' }
+
+// Bundled so certificates rasterize the same on hosts without fonts; DejaVu covers the sans and mono text
+const FONT_DIR = join(dirname(createRequire(import.meta.url).resolve('dejavu-fonts-ttf/package.json')), 'ttf')
+const FONT_OPTIONS = {
+  loadSystemFonts: false,
+  fontFiles: ['DejaVuSans.ttf', 'DejaVuSans-Bold.ttf', 'DejaVuSansMono.ttf'].map(file => join(FONT_DIR, file)),
+  defaultFontFamily: 'DejaVu Sans',
+  sansSerifFamily: 'DejaVu Sans',
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Returns the certificate image URL for a verification link
+ */
+export function getCertificateImageUrl(verifyUrl: URL, format: ImageFormat = 'png'): URL {
+  const url = new URL(verifyUrl)
+  url.pathname = `${CERTIFICATE_PREFIX}${url.pathname.slice(VERIFY_PREFIX.length)}.${format}`
+  return url
+}
+
+/**
+ * Rasterizes a certificate SVG to PNG at its own size
+ */
+export function renderCertificatePng(svg: string): Uint8Array {
+  return new Resvg(svg, { font: FONT_OPTIONS }).render().asPng()
+}
+
+function isNotMined(error: unknown): boolean {
+  const cause = (error as Error).cause
+  return cause instanceof TransactionNotFoundError || cause instanceof TransactionReceiptNotFoundError
+}
+
+function getVerifyRoute(url: URL): VerifyRoute | null {
+  const route = parseRoute(url)
+  return route.name === 'verify-address' || route.name === 'verify-tx' ? route : null
+}
+
+export function createShareService(options: ShareServiceOptions): ShareService {
+  // A mined transaction's credentials never change, so they're read once
+  const transactions = new Map<string, IssuedCredential[]>()
+
+  const load = async (route: VerifyRoute): Promise<IssuedCredential[]> => {
+    if (route.name === 'verify-address') {
+      const credentials = await getCredentials(route.address, options.registryAddress, options.publicClient)
+      return credentials.map(credential => ({
+        user: route.address,
+        fid: credential.fid,
+        skillName: credential.skillName,
+        completedAt: credential.completedAt,
+        challengeId: credential.challengeId,
+        score: credential.score,
+        credentialHash: credential.credentialHash,
+      }))
+    }
+
+    const cached = transactions.get(route.hash)
+    if (cached) return cached
+
+    let issued: IssuedCredential[]
+    try {
+      issued = await getIssuedCredentials(route.hash, options.registryAddress, options.publicClient)
+    } catch (error) {
+      // An unknown or pending transaction has no credentials yet, which isn't cached
+      if (isNotMined(error)) return []
+      throw error
+    }
+    if (transactions.size >= MAX_CACHED_TRANSACTIONS) {
+      transactions.delete(transactions.keys().next().value!)
+    }
+    transactions.set(route.hash, issued)
+    return issued
+  }
+
+  // The claimed credential when the link has a claim, otherwise the first one found
+  const getCertificate = async (route: VerifyRoute): Promise<CertificateImage | null> => {
+    const issued = await load(route)
+    const check = route.claim ? checkCredentialClaim(route.claim, issued) : null
+    const credential = check?.match ?? issued[0]
+    return credential ? getCertificateImage(credential, check, options.chainLabel) : null
+  }
+
+  return {
+    async renderImage(url) {
+      const format = (Object.keys(CONTENT_TYPES) as ImageFormat[]).find(type => url.pathname.endsWith(`.${type}`))
+      if (!url.pathname.startsWith(CERTIFICATE_PREFIX) || !format) return null
+
+      const verifyUrl = new URL(url)
+      verifyUrl.pathname = `${VERIFY_PREFIX}${url.pathname.slice(CERTIFICATE_PREFIX.length, -`.${format}`.length)}`
+      const route = getVerifyRoute(verifyUrl)
+      if (!route) return null
+
+      const certificate = await getCertificate(route)
+      if (!certificate) return null
+
+      const svg = renderCertificateSvg(certificate)
+      return { contentType: CONTENT_TYPES[format], body: format === 'png' ? renderCertificatePng(svg) : svg }
+    },
+
+    async renderPage(url) {
+      const route = getVerifyRoute(url)
+      const certificate = route && await getCertificate(route).catch((error) => {
+        log('warn', 'preview credential unreadable', { path: url.pathname, error: (error as Error).message })
+        return null
+      })
+      if (!certificate) return options.indexHtml
+
+      const pageUrl = new URL(`${url.pathname}${url.search}`, options.appUrl)
+      const imageUrl = getCertificateImageUrl(pageUrl).toString()
+      const title = `${certificate.skillName} · SKÜL Credential`
+      const description = certificate.status === 'mismatched'
+        ? `This link's credential does not match ${certificate.chainLabel}.`
+        : `Proof of Skill for FID ${certificate.fid}, recorded on ${certificate.chainLabel}.`
+      const embed = (type: string) => JSON.stringify({
+        version: '1',
+        imageUrl,
+        button: { title: 'Verify Credential', action: { type, name: 'SKÜL', url: pageUrl.toString() } },
+      })
+
+      const tags = [
+        `<meta property="og:title" content="${escapeHtml(title)}" />`,
+        `<meta property="og:description" content="${escapeHtml(description)}" />`,
+        `<meta property="og:image" content="${escapeHtml(imageUrl)}" />`,
+        `<meta property="og:url" content="${escapeHtml(pageUrl.toString())}" />`,
+        '<meta name="twitter:card" content="summary_large_image" />',
+        `<meta name="fc:miniapp" content="${escapeHtml(embed('launch_miniapp'))}" />`,
+        // Older Farcaster clients only read the frame tag
+        `<meta name="fc:frame" content="${escapeHtml(embed('launch_frame'))}" />`,
+      ]
+      // Replacer functions, so a `$&` or `$'` in a skill name is inserted as written
+      return options.indexHtml
+        .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(title)}</title>`)
+        .replace('</head>', () => `  ${tags.join('\n    ')}\n  </head>`)
+    },
+  }
+}
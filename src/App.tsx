@@ -1,44 +1,142 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import sdk from '@farcaster/miniapp-sdk'
+import { zeroAddress } from 'viem'
 import { PrivyProvider, usePrivy, useWallets } from '@privy-io/react-auth'
-import { GraduationCap, Check, Shield, Share2, Sparkles } from 'lucide-react'
-import { CHALLENGES, getRandomChallenge, type Challenge } from './utils/challenges'
-import { validateAnswer, validatePresentation, validateNegotiation } from './utils/validation'
-import { mintBadge, generateCredentialNumber, type BadgeMetadata, SONEIUM_MINATO } from './utils/badge'
+import { GraduationCap, Check, Shield, Share2, Sparkles, Award, ExternalLink, Trophy, CircleCheck, CircleAlert, Lock, Route, History } from 'lucide-react'
+import { getChallengeById, getChallenges, registerChallengePack, type Challenge } from './utils/challenges'
+import { clearDraft, getLatestDraft, getPassedChallengeIds, loadAttempt, loadAttempts, loadDraft, recordAttempt, saveDraft, updateAttempt, type AttemptRecord, type Draft } from './utils/attempts'
+import { getTrackProgress, getTrackScore, getTracks, getUnlockedChallenges, type LearningTrack } from './utils/tracks'
+import { selectNextChallenge } from './utils/difficulty'
+import { getChallengePacksUrl, loadChallengePacks } from './utils/packs'
+import { type ValidationResult } from './utils/validation'
+import { getGrader } from './utils/grader'
+import { mintBadge, checkCredentialClaim, createCredentialRecord, getBadgeMetadata, getCredentials, getCredentialTransactions, getExplorerAddressUrl, getExplorerTokenUrl, getExplorerTxUrl, getIssuedCredentials, getMintResult, getRegistryVersion, withCredentialTransactions, type BadgeMetadata, type MintResult, type RegistryVersion, type CredentialRecord, type IssuedCredential, type OnchainCredential } from './utils/badge'
+import { getActiveChain } from './utils/chains'
+import { DEFAULT_ATTESTATION_TTL_SECONDS } from './utils/attestation'
+import { getMintJobTracker, isMintJobSettled, type MintJob } from './utils/mintJobs'
+import { getMintErrorInfo } from './utils/mintErrors'
+import { checkFidBinding, loadFarcasterSignIn, saveFarcasterSignIn, signInWithFarcaster, verifyFarcasterSignIn, type FarcasterIdentity, type FidVerification } from './utils/farcasterAuth'
+import { getFarcasterWallet, getPrivyWalletOptions, loadPreferredWalletId, pickWallet, resolveWallets, savePreferredWalletId, type WalletOption } from './utils/wallets'
+import { createCredentialIndexer, createLocalStorageStore, getIndexerStartBlock, type IndexedCredential } from './utils/indexer'
+import { buildLeaderboards } from './utils/leaderboard'
+import { getVerifyPath, getVerifyUrl, navigate, parseRoute, subscribeToRoute, type AppRoute } from './utils/router'
 
 // Logo image path - place your logo in public folder as skul-logo.png
 // Or update this path to match your image location
 const skulLogo = '/skul-logo.png'
 
-type AppState = 'SPLASH' | 'START' | 'CHALLENGE' | 'SUCCESS'
+// Selected by VITE_CHAIN, see utils/chains.ts
+const activeChain = getActiveChain()
+
+type AppState = 'SPLASH' | 'START' | 'CHALLENGE' | 'SUCCESS' | 'CREDENTIALS' | 'LEADERBOARD' | 'TRACKS' | 'HISTORY'
+
+// The four steps of a mint shown on the success screen
+const MINT_STEPS = ['Prepare', 'Sign', 'Send', 'Confirm'] as const
+
+function getMintStep(job: MintJob): number {
+  switch (job.status) {
+    case 'preparing':
+      return 0
+    case 'awaiting-signature':
+      return 1
+    case 'submitted':
+      return 2
+    default:
+      return 3
+  }
+}
+
+function describeMintJob(job: MintJob): string {
+  switch (job.status) {
+    case 'preparing':
+      return 'Preparing your credential...'
+    case 'awaiting-signature':
+      return 'Waiting for your wallet to sign...'
+    case 'submitted':
+      return 'Sent, waiting for a block...'
+    case 'confirming':
+      return `Confirming (${job.confirmations}/${job.requiredConfirmations} blocks)...`
+    case 'confirmed':
+      return 'Confirmed onchain'
+    case 'reverted':
+      return 'Transaction reverted'
+    case 'replaced':
+      return 'Transaction replaced'
+    case 'dropped':
+      return 'Transaction dropped'
+    case 'failed':
+      return 'Mint failed'
+  }
+}
 
 interface FarcasterContext {
   fid?: number
   username?: string
 }
 
-interface MintResult {
-  success: boolean
-  txHash?: string
-  error?: string
+// What a mint needs before the signing wallet is known; the credential number is derived from that wallet
+interface MintRequest {
+  challengeId: string
+  category: string
+  timestamp: number
+  score?: number
+  // What the credential number commits to
+  answer: string
+  // Whether an issuer can re-grade the answer, so it is sent along
+  attestable: boolean
+  gradeToken?: string
 }
 
 function AppContent() {
   const [state, setState] = useState<AppState>('SPLASH')
   const [userAnswer, setUserAnswer] = useState('')
   const [farcasterContext, setFarcasterContext] = useState<FarcasterContext>({})
-  const [currentChallenge, setCurrentChallenge] = useState<Challenge>(CHALLENGES[0])
-  const [credentialNumber, setCredentialNumber] = useState<string>('')
-  const [validationResult, setValidationResult] = useState<{ score: number; passed: boolean; feedback: string } | null>(null)
+  const [currentChallenge, setCurrentChallenge] = useState<Challenge | null>(null)
+  const [packErrors, setPackErrors] = useState<string[]>([])
+  const [attempts, setAttempts] = useState<AttemptRecord[]>([])
+  const [resumableDraft, setResumableDraft] = useState<Draft | null>(null)
+  const [mintingTrackId, setMintingTrackId] = useState<string | null>(null)
+  const [registryVersion, setRegistryVersion] = useState<RegistryVersion | null>(null)
+  const [selectionReason, setSelectionReason] = useState<string | null>(null)
+  const [credential, setCredential] = useState<CredentialRecord | null>(null)
+  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
+  const [isGrading, setIsGrading] = useState(false)
+  const [gradingError, setGradingError] = useState<string | null>(null)
   const [isMinting, setIsMinting] = useState(false)
   const [mintError, setMintError] = useState<string | null>(null)
   const [mintResult, setMintResult] = useState<MintResult | null>(null)
+  const [mintJobs, setMintJobs] = useState<MintJob[]>(() => getMintJobTracker().getJobs())
+  const [mintJobId, setMintJobId] = useState<string | null>(null)
+  const [lastMint, setLastMint] = useState<{ request: MintRequest; attempt?: AttemptRecord } | null>(null)
+  const [badgeImage, setBadgeImage] = useState<string | null>(null)
+  const [credentials, setCredentials] = useState<OnchainCredential[]>([])
+  const [credentialsOwner, setCredentialsOwner] = useState<string | null>(null)
+  const [isLoadingCredentials, setIsLoadingCredentials] = useState(false)
+  const [credentialsError, setCredentialsError] = useState<string | null>(null)
+  const [indexedCredentials, setIndexedCredentials] = useState<IndexedCredential[]>([])
+  const [leaderboardError, setLeaderboardError] = useState<string | null>(null)
+  const [leaderboardSkill, setLeaderboardSkill] = useState<string | null>(null)
+  const [farcasterWallet, setFarcasterWallet] = useState<WalletOption | null>(null)
+  const [preferredWalletId, setPreferredWalletId] = useState<string | null>(loadPreferredWalletId)
+  const [farcasterIdentity, setFarcasterIdentity] = useState<FarcasterIdentity | null>(null)
+  const [isVerifyingFid, setIsVerifyingFid] = useState(false)
+  const [fidError, setFidError] = useState<string | null>(null)
   const { ready, authenticated, login } = usePrivy()
   const { wallets } = useWallets()
+
+  // Every wallet the user can mint with, most preferred first
+  const walletOptions = useMemo(
+    () => resolveWallets([...(farcasterWallet ? [farcasterWallet] : []), ...getPrivyWalletOptions(wallets)]),
+    [farcasterWallet, wallets]
+  )
+  const activeWallet = pickWallet(walletOptions, preferredWalletId)
+
+  // The context's FID only counts once signed in as it, with a wallet that belongs to it
+  const fidVerification = checkFidBinding(farcasterIdentity, farcasterContext.fid, activeWallet?.address)
   
-  // Get the contract address from environment or use a placeholder
-  const CONTRACT_ADDRESS = (import.meta.env.VITE_CONTRACT_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`
+  // The registry on the active chain, or the zero address as a placeholder
+  const CONTRACT_ADDRESS = activeChain.registryAddress
 
   // Splash screen - show for 2 seconds
   useEffect(() => {
@@ -65,6 +163,9 @@ function AppContent() {
             username: context.user?.username,
           })
         }
+
+        // Inside a Farcaster client, its built-in wallet is the first choice for minting
+        setFarcasterWallet(await getFarcasterWallet())
       } catch (error) {
         console.error('Failed to initialize Farcaster SDK:', error)
       }
@@ -73,84 +174,405 @@ function AppContent() {
     initializeSDK()
   }, [])
 
-  const handleStartChallenge = () => {
+  // Restore the last Farcaster sign-in, verifying it again since it was stored on this device
+  useEffect(() => {
+    const signIn = loadFarcasterSignIn()
+    if (!signIn) return
+
+    verifyFarcasterSignIn(signIn)
+      .then(setFarcasterIdentity)
+      .catch((error) => {
+        console.error('Stored Farcaster sign-in no longer verifies:', error)
+        saveFarcasterSignIn(null)
+      })
+  }, [])
+
+  // Index CredentialIssued events while the leaderboard is open
+  useEffect(() => {
+    if (state !== 'LEADERBOARD') return
+
+    const indexer = createCredentialIndexer({
+      contractAddress: CONTRACT_ADDRESS,
+      fromBlock: getIndexerStartBlock(),
+      store: createLocalStorageStore(`skul:indexer:${activeChain.chain.id}:${CONTRACT_ADDRESS.toLowerCase()}`),
+      onUpdate: (credentials) => {
+        setIndexedCredentials([...credentials])
+        setLeaderboardError(null)
+      },
+      onError: (error) => {
+        console.error('Failed to index credentials:', error)
+        setLeaderboardError(`Failed to sync leaderboard from ${activeChain.label}. Retrying...`)
+      },
+    })
+
+    indexer.start()
+    return () => indexer.stop()
+  }, [state, CONTRACT_ADDRESS])
+
+  // Track credentials have no answer for an issuer to re-grade, so attested registries can't take them
+  useEffect(() => {
+    if (state !== 'TRACKS') return
+    getRegistryVersion(CONTRACT_ADDRESS)
+      .then(setRegistryVersion)
+      .catch((error) => console.error('Failed to read the registry version:', error))
+  }, [state, CONTRACT_ADDRESS])
+
+  // Autosave the answer being typed so a reload or backgrounded mini app doesn't lose it
+  useEffect(() => {
+    if (state !== 'CHALLENGE' || !currentChallenge || validationResult?.passed) return
+
+    const timer = setTimeout(() => {
+      saveDraft({ challengeId: currentChallenge.id, answer: userAnswer, updatedAt: Date.now() })
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [state, currentChallenge, userAnswer, validationResult])
+
+  // Follow mints an earlier session left unfinished, and record how they ended with their attempts
+  useEffect(() => {
+    const tracker = getMintJobTracker()
+    const unsubscribe = tracker.subscribe(() => setMintJobs(tracker.getJobs()))
+
+    const recordOutcome = async (job: MintJob) => {
+      const attempt = job.attemptId === undefined ? undefined : await loadAttempt(job.attemptId)
+      if (!attempt) return
+
+      const mint = getMintResult(job)
+      const completed: AttemptRecord = {
+        ...attempt,
+        credential: attempt.credential && { ...attempt.credential, txHash: mint.txHash as `0x${string}` | undefined },
+        mint,
+      }
+      await updateAttempt(completed)
+      setAttempts(previous => previous.map(item => (item.id === completed.id ? completed : item)))
+    }
+
+    for (const watching of tracker.resume()) {
+      watching.then(recordOutcome).catch((error) => console.error('Failed to resume mint:', error))
+    }
+    return unsubscribe
+  }, [])
+
+  const mintJob = mintJobs.find(job => job.id === mintJobId) ?? null
+
+  // Render the soulbound badge from its onchain metadata once it's minted
+  const mintedTokenId = mintResult?.tokenId
+  useEffect(() => {
+    setBadgeImage(null)
+    if (!mintedTokenId) return
+
+    let cancelled = false
+    getBadgeMetadata(CONTRACT_ADDRESS, mintedTokenId)
+      .then((metadata) => {
+        if (!cancelled) setBadgeImage(metadata.image)
+      })
+      .catch((error) => console.error('Failed to load badge metadata:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [mintedTokenId, CONTRACT_ADDRESS])
+
+  const leaderboards = useMemo(() => buildLeaderboards(indexedCredentials), [indexedCredentials])
+  const leaderboardEntries = leaderboardSkill
+    ? leaderboards.bySkill[leaderboardSkill] ?? []
+    : leaderboards.overall
+
+  // Load challenge packs while the splash screen is showing
+  useEffect(() => {
+    const loadPacks = async () => {
+      const { packs, errors } = await loadChallengePacks(getChallengePacksUrl())
+      const registrationErrors: string[] = []
+
+      for (const pack of packs) {
+        try {
+          registerChallengePack(pack)
+        } catch (error) {
+          registrationErrors.push((error as Error).message)
+        }
+      }
+
+      const allErrors = [...errors, ...registrationErrors]
+      if (allErrors.length > 0) {
+        console.error('Challenge pack errors:', allErrors)
+      }
+      setPackErrors(allErrors)
+      setCurrentChallenge(getChallenges()[0] ?? null)
+      setAttempts(await loadAttempts())
+
+      // Offer to pick up an unfinished answer from a previous session
+      const draft = await getLatestDraft()
+      if (draft && getChallengeById(draft.challengeId)) {
+        setResumableDraft(draft)
+      }
+    }
+
+    loadPacks()
+  }, [])
+
+  const passedChallengeIds = useMemo(() => getPassedChallengeIds(attempts), [attempts])
+
+  const openChallenge = (challenge: Challenge, reason: string | null = null) => {
     setState('CHALLENGE')
+    setSelectionReason(reason)
     setUserAnswer('')
     setValidationResult(null)
-    const randomChallenge = getRandomChallenge()
-    setCurrentChallenge(randomChallenge)
+    setGradingError(null)
+    setCurrentChallenge(challenge)
+    if (resumableDraft?.challengeId === challenge.id) setResumableDraft(null)
+
+    loadDraft(challenge.id).then((draft) => {
+      if (draft) setUserAnswer(answer => answer || draft.answer)
+    })
+  }
+
+  const handleResumeDraft = () => {
+    const challenge = resumableDraft && getChallengeById(resumableDraft.challengeId)
+    if (challenge) openChallenge(challenge)
+  }
+
+  const handleStartChallenge = () => {
+    // Only pick from challenges whose learning-track prerequisites are met
+    const selection = selectNextChallenge(
+      getUnlockedChallenges(getChallenges(), passedChallengeIds),
+      attempts,
+      currentChallenge?.id
+    )
+    if (!selection) return
+    openChallenge(selection.challenge, selection.reason)
+  }
+
+  const handleStartTrackStep = (challengeId: string) => {
+    const challenge = getChallengeById(challengeId)
+    if (challenge) openChallenge(challenge)
+  }
+
+  const handleViewTracks = () => {
+    setState('TRACKS')
+    setMintError(null)
+    setMintResult(null)
+    setMintingTrackId(null)
+  }
+
+  // Shown until a mint derives the number again from the wallet that signs it
+  const getCredentialWallet = () => activeWallet?.address ?? zeroAddress
+
+  const handleSelectWallet = (id: string) => {
+    setPreferredWalletId(id)
+    savePreferredWalletId(id)
+  }
+
+  // Proves the FID with Sign In With Farcaster
+  const handleVerifyFid = async () => {
+    setIsVerifyingFid(true)
+    setFidError(null)
+    try {
+      const signIn = await signInWithFarcaster()
+      const identity = await verifyFarcasterSignIn(signIn)
+      saveFarcasterSignIn(signIn)
+      setFarcasterIdentity(identity)
+    } catch (error) {
+      console.error('Farcaster sign-in failed:', error)
+      setFidError((error as Error).message || 'Farcaster sign-in failed. Please try again.')
+    } finally {
+      setIsVerifyingFid(false)
+    }
+  }
+
+  const handleMintTrackCredential = async (track: LearningTrack) => {
+    const score = getTrackScore(track, attempts)
+    if (score === null) return
+
+    setMintingTrackId(track.id)
+    await mintCredential({
+      challengeId: `track:${track.id}`,
+      category: track.credential,
+      timestamp: Date.now(),
+      score,
+      // A track's "answer" is the set of challenges it certifies, which no issuer can re-grade
+      answer: track.steps.map(step => step.challengeId).join(' '),
+      attestable: false,
+    })
+  }
+
+  // Mints an onchain badge with the selected wallet. The credential number is derived here,
+  // from the account that signs, so a wallet connected or switched since passing is the one it commits to.
+  // An attempt's credential is replaced before the mint is sent, so a relaunch records the outcome against it.
+  const mintCredential = async (passed: MintRequest, attempt?: AttemptRecord): Promise<MintResult | null> => {
+    // Issuers only attest recent timestamps, so a stale one is renewed. Retries reuse the renewed
+    // request, so the issuer sees the same credential number again.
+    const request = Date.now() - passed.timestamp > (DEFAULT_ATTESTATION_TTL_SECONDS * 1000) / 2
+      ? { ...passed, timestamp: Date.now() }
+      : passed
+    setLastMint({ request, attempt })
+    if (!farcasterContext.fid || !activeWallet) {
+      if (!activeWallet) {
+        setMintError('Connect wallet to mint onchain credential')
+        setMintResult({ success: false, errorCode: 'no-wallet' })
+      }
+      return null
+    }
+
+    const fid = farcasterContext.fid
+    setIsMinting(true)
+    setMintError(null)
+    setMintResult(null)
+
+    let target = attempt
+    const isSameCredential = (current: CredentialRecord | null) =>
+      current?.challengeId === request.challengeId &&
+      (current.timestamp === passed.timestamp || current.timestamp === request.timestamp)
+
+    try {
+      // Get the Ethereum provider
+      const ethereumProvider = await activeWallet.getProvider()
+      if (!ethereumProvider) {
+        throw new Error('Failed to get Ethereum provider from wallet.')
+      }
+      const [signer] = (await ethereumProvider.request({ method: 'eth_requestAccounts' })) as `0x${string}`[]
+      if (!signer) {
+        throw new Error('The wallet did not share an account to mint with.')
+      }
+
+      const record: CredentialRecord = {
+        ...createCredentialRecord({
+          fid,
+          wallet: signer,
+          challengeId: request.challengeId,
+          answer: request.answer,
+          timestamp: request.timestamp,
+        }),
+        fidVerified: checkFidBinding(farcasterIdentity, fid, signer).status === 'verified',
+      }
+      setMintJobId(record.credentialNumber)
+      setCredential(current => (isSameCredential(current) ? record : current))
+      if (attempt) {
+        target = { ...attempt, credential: record }
+        await updateAttempt(target)
+        const replaced = target
+        setAttempts(previous => previous.map(item => (item === attempt ? replaced : item)))
+      }
+
+      const badgeMetadata: BadgeMetadata = {
+        fid,
+        challengeId: request.challengeId,
+        credentialNumber: record.credentialNumber,
+        category: request.category,
+        timestamp: request.timestamp,
+        score: request.score,
+        answer: request.attestable ? request.answer : undefined,
+        gradeToken: request.gradeToken,
+      }
+
+      const mintBadgeResult = await mintBadge(badgeMetadata, ethereumProvider, CONTRACT_ADDRESS, { attemptId: attempt?.id })
+      setMintResult(mintBadgeResult)
+
+      if (!mintBadgeResult.success) {
+        setMintError(mintBadgeResult.error || 'Failed to mint badge onchain')
+        console.error('Failed to mint badge:', mintBadgeResult.error)
+      } else {
+        console.log('Badge minted successfully! TX:', mintBadgeResult.txHash)
+      }
+
+      const minted = { ...record, txHash: mintBadgeResult.txHash as `0x${string}` | undefined }
+      setCredential(current => (isSameCredential(current) ? minted : current))
+      if (target) {
+        const previous = target
+        const completed: AttemptRecord = { ...previous, credential: minted, mint: mintBadgeResult }
+        await updateAttempt(completed)
+        setAttempts(items => items.map(item => (item === previous ? completed : item)))
+        setLastMint(current => (current?.attempt === attempt ? { request, attempt: completed } : current))
+      }
+      return mintBadgeResult
+    } catch (error: any) {
+      // mintBadge reports its own failures, so this is the wallet being unavailable
+      const errorMessage = error?.message || 'Failed to mint badge onchain'
+      const failed: MintResult = { success: false, error: errorMessage, errorCode: 'no-wallet' }
+      setMintError(errorMessage)
+      setMintResult(failed)
+      console.error('Error minting badge:', error)
+      if (target) setLastMint({ request, attempt: target })
+      return failed
+    } finally {
+      setIsMinting(false)
+    }
+  }
+
+  // Sends the last mint again. mintBadge switches the wallet's network first if it needs to.
+  const handleRetryMint = async () => {
+    if (!lastMint) return
+    await mintCredential(lastMint.request, lastMint.attempt)
   }
 
   const handleSubmitChallenge = async () => {
-    if (userAnswer.trim().length === 0) return
+    if (!currentChallenge || userAnswer.trim().length === 0) return
     
-    // Validate the answer based on challenge type
-    let validationResult
-    if (currentChallenge.id.includes('presentation')) {
-      validationResult = validatePresentation(userAnswer)
-    } else if (currentChallenge.id.includes('negotiation')) {
-      validationResult = validateNegotiation(userAnswer)
-    } else {
-      validationResult = validateAnswer(userAnswer, currentChallenge.prompt, 'email')
+    // Grade the answer with the challenge's grader and scorer
+    setIsGrading(true)
+    setGradingError(null)
+    let validationResult: ValidationResult
+    try {
+      validationResult = await getGrader(currentChallenge.grader).grade({
+        scorer: currentChallenge.scorer,
+        prompt: currentChallenge.prompt,
+        instructions: currentChallenge.instructions,
+        answer: userAnswer,
+        scorerConfig: currentChallenge.scorerConfig,
+        challengeId: currentChallenge.id,
+        fid: farcasterContext.fid ?? 0,
+      })
+    } catch (error) {
+      console.error('Grading failed:', error)
+      setGradingError((error as Error).message || 'Grading failed. Please try again.')
+      return
+    } finally {
+      setIsGrading(false)
     }
     
     setValidationResult(validationResult)
+    const attempt = await recordAttempt({
+      challengeId: currentChallenge.id,
+      category: currentChallenge.category,
+      difficulty: currentChallenge.difficulty,
+      score: validationResult.score,
+      passed: validationResult.passed,
+      completedAt: Date.now(),
+      answer: userAnswer,
+      result: validationResult,
+    })
+    setAttempts(previous => [...previous, attempt])
     
     if (validationResult.passed) {
-      // Generate credential number
-      const credNum = generateCredentialNumber()
-      setCredentialNumber(credNum)
-      
-      // Mint onchain badge
-      if (farcasterContext.fid && authenticated) {
-        setIsMinting(true)
-        setMintError(null)
-        setMintResult(null)
-        
-        try {
-          // Get the Ethereum wallet from Privy
-          const wallet = wallets.find(w => w.walletClientType === 'privy')
-          if (!wallet) {
-            throw new Error('No Privy wallet found. Please connect your wallet.')
-          }
-
-          // Get the Ethereum provider
-          const ethereumProvider = await wallet.getEthereumProvider()
-          if (!ethereumProvider) {
-            throw new Error('Failed to get Ethereum provider from wallet.')
-          }
-
-          const badgeMetadata: BadgeMetadata = {
-            fid: farcasterContext.fid,
-            challengeId: currentChallenge.id,
-            credentialNumber: credNum,
-            category: currentChallenge.category,
-            timestamp: Date.now(),
-            score: validationResult.score,
-          }
-          
-          const mintBadgeResult = await mintBadge(badgeMetadata, ethereumProvider, CONTRACT_ADDRESS)
-          setMintResult(mintBadgeResult)
-          
-          if (!mintBadgeResult.success) {
-            setMintError(mintBadgeResult.error || 'Failed to mint badge onchain')
-            console.error('Failed to mint badge:', mintBadgeResult.error)
-          } else {
-            console.log('Badge minted successfully! TX:', mintBadgeResult.txHash)
-          }
-        } catch (error: any) {
-          const errorMessage = error?.message || 'Failed to mint badge onchain'
-          setMintError(errorMessage)
-          setMintResult({ success: false, error: errorMessage })
-          console.error('Error minting badge:', error)
-        } finally {
-          setIsMinting(false)
-        }
-      } else if (!authenticated) {
-        setMintError('Connect wallet to mint onchain credential')
+      clearDraft(currentChallenge.id)
+
+      // Derive the credential number from who passed what, and when; minting derives it again from the signing wallet
+      const record: CredentialRecord = {
+        ...createCredentialRecord({
+          fid: farcasterContext.fid ?? 0,
+          wallet: getCredentialWallet(),
+          challengeId: currentChallenge.id,
+          answer: userAnswer,
+          timestamp: Date.now(),
+        }),
+        fidVerified: fidVerification.status === 'verified',
       }
-      
+      setCredential(record)
+
+      // Keep the credential inputs with the attempt so the number can be verified later,
+      // and so a mint that only settles after a relaunch can be recorded against it
+      const certified: AttemptRecord = { ...attempt, credential: record }
+      await updateAttempt(certified)
+      setAttempts(previous => previous.map(item => (item === attempt ? certified : item)))
+
+      // The success screen follows the mint's progress
       setState('SUCCESS')
+      await mintCredential({
+        challengeId: currentChallenge.id,
+        category: currentChallenge.category,
+        timestamp: record.timestamp,
+        score: validationResult.score,
+        answer: userAnswer,
+        attestable: true,
+        gradeToken: validationResult.gradeToken,
+      }, certified)
     }
   }
 
@@ -161,20 +583,126 @@ function AppContent() {
     }
   }
 
+  // Lets the user choose which wallet mints when more than one is connected
+  const renderWalletPicker = () => {
+    if (walletOptions.length < 2) return null
+    return (
+      <label className="block text-left space-y-2">
+        <span className="text-xs text-zinc-400 uppercase tracking-wide">Mint with</span>
+        <select
+          value={activeWallet?.id}
+          onChange={(event) => handleSelectWallet(event.target.value)}
+          className="w-full rounded-xl px-3 py-3 bg-white/5 border border-white/10 text-zinc-300 text-sm"
+        >
+          {walletOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label} ({option.address.slice(0, 6)}...{option.address.slice(-4)})
+            </option>
+          ))}
+        </select>
+      </label>
+    )
+  }
+
+  // Whether the FID is verified, and a way to verify it from inside a Farcaster client
+  const renderFidStatus = (verification: FidVerification) => {
+    const verified = verification.status === 'verified'
+    const canSignIn = !!farcasterContext.fid && farcasterIdentity?.fid !== farcasterContext.fid
+    return (
+      <div className="space-y-2">
+        <p className={`flex items-center gap-1 text-xs font-bold ${verified ? 'text-emerald-400' : 'text-yellow-300'}`}>
+          {verified ? <CircleCheck className="w-4 h-4" /> : <CircleAlert className="w-4 h-4" />}
+          {verified ? 'Verified FID' : 'Unverified FID'}
+        </p>
+        {verification.reason && <p className="text-zinc-500 text-xs">{verification.reason}</p>}
+        {!verified && canSignIn && (
+          <button
+            onClick={handleVerifyFid}
+            disabled={isVerifyingFid}
+            className="px-4 py-2 bg-white/10 border border-white/10 rounded-full text-xs font-bold text-white transition-all active:scale-95 disabled:opacity-50"
+          >
+            {isVerifyingFid ? 'Waiting for Farcaster...' : 'Sign In With Farcaster'}
+          </button>
+        )}
+        {fidError && <p className="text-yellow-300 text-xs">{fidError}</p>}
+      </div>
+    )
+  }
+
+  // Recovery actions for a failed mint, chosen by its error code
+  const renderMintRecovery = () => {
+    const code = mintResult?.errorCode
+    if (!code || isMinting) return null
+
+    const buttonClassName = 'px-4 py-2 bg-white/10 border border-white/10 rounded-full text-xs font-bold text-white transition-all active:scale-95'
+    if (code === 'no-wallet' && !activeWallet) {
+      return <button onClick={handleConnectPrivy} className={buttonClassName}>Connect Wallet</button>
+    }
+    if (code === 'already-minted' || code === 'tx-replaced') {
+      return <button onClick={handleViewCredentials} className={buttonClassName}>View Credentials</button>
+    }
+    if (code === 'wrong-network' && lastMint) {
+      return <button onClick={handleRetryMint} className={buttonClassName}>Switch to {activeChain.label}</button>
+    }
+
+    const { retry } = getMintErrorInfo(code)
+    if (retry === 'never' || !lastMint) return null
+    return (
+      <div className="flex items-center gap-3">
+        <button onClick={handleRetryMint} className={buttonClassName}>Try Again</button>
+        {retry === 'later' && <p className="text-zinc-500 text-xs">If it fails again, wait a few minutes.</p>}
+      </div>
+    )
+  }
+
   const handleReset = () => {
     setState('START')
     setUserAnswer('')
     setValidationResult(null)
-    setCredentialNumber('')
+    setCredential(null)
     setMintError(null)
     setMintResult(null)
   }
 
+  const handleViewCredentials = async () => {
+    setState('CREDENTIALS')
+    setCredentials([])
+    setCredentialsError(null)
+
+    if (!activeWallet) {
+      setCredentialsError('No wallet found. Please connect your wallet.')
+      return
+    }
+
+    setCredentialsOwner(activeWallet.address)
+    setIsLoadingCredentials(true)
+    try {
+      // Without the issuing transactions, which some RPCs can't search for, the cards link to the wallet
+      const [userCredentials, transactions] = await Promise.all([
+        getCredentials(activeWallet.address, CONTRACT_ADDRESS),
+        getCredentialTransactions(activeWallet.address, CONTRACT_ADDRESS, getIndexerStartBlock()).catch((error) => {
+          console.error('Failed to load credential transactions:', error)
+          return []
+        }),
+      ])
+      setCredentials(withCredentialTransactions(userCredentials, transactions))
+    } catch (error) {
+      console.error('Failed to load credentials:', error)
+      setCredentialsError(`Failed to load credentials from ${activeChain.label}. Please try again.`)
+    } finally {
+      setIsLoadingCredentials(false)
+    }
+  }
+
   const handleShareToFarcaster = async () => {
+    if (!currentChallenge) return
+
     try {
-      const shareText = `I just earned a Proof of Skill badge in ${currentChallenge.category}! 🎓\n\nCredential: ${credentialNumber}\nFID: ${farcasterContext.fid}\n\n#ProofOfSkill #SKÜL`
+      const shareText = `I just earned a Proof of Skill badge in ${currentChallenge.category}! 🎓\n\n#ProofOfSkill #SKÜL`
+      // The verification page previews as the certificate image, with a button to check it
       await sdk.actions.composeCast({
         text: shareText,
+        embeds: credential?.txHash ? [getVerifyUrl(credential)] : [],
       })
     } catch (error) {
       console.error('Failed to share to Farcaster:', error)
@@ -270,36 +798,100 @@ function AppContent() {
                   {/* Active Challenge Box */}
                   <div className="w-full mb-8 p-5 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl">
                     <p className="text-xs text-zinc-400 uppercase tracking-wide mb-2 font-bold">ACTIVE CHALLENGE</p>
-                    <p className="text-white text-lg font-bold tracking-tight">{currentChallenge.title}</p>
+                    <p className="text-white text-lg font-bold tracking-tight">
+                      {currentChallenge?.title ?? 'Loading challenges...'}
+                    </p>
                   </div>
+
+                  {packErrors.length > 0 && (
+                    <div className="w-full mb-8 bg-yellow-900/20 border border-yellow-800/50 rounded-2xl p-4 text-left">
+                      <p className="text-yellow-300 text-sm">Some challenges could not be loaded.</p>
+                    </div>
+                  )}
                   
                   <div className="w-full glass rounded-b-[2.5rem] px-[10px] pt-[20px] pb-[30px]">
                     <button 
                       onClick={handleStartChallenge} 
-                      className="w-full py-8 px-6 bg-white text-black rounded-full font-bold text-4xl button-glow active:scale-95 transition-all mb-[1.125rem]"
+                      disabled={!currentChallenge}
+                      className="w-full py-8 px-6 bg-white text-black rounded-full font-bold text-4xl button-glow active:scale-95 transition-all mb-[1.125rem] disabled:opacity-50"
                       style={{ fontSize: '2rem', minHeight: '80px' }}
                     >
                       Start Challenge →
                     </button>
+
+                    {resumableDraft && (
+                      <button
+                        onClick={handleResumeDraft}
+                        className="w-full py-8 px-6 bg-indigo-600 rounded-full font-bold text-4xl button-glow active:scale-95 transition-all mb-[1.125rem]"
+                        style={{ fontSize: '2rem', minHeight: '80px' }}
+                      >
+                        Resume Draft
+                      </button>
+                    )}
                     
-                    {/* Privy Connection */}
+                    {/* Onchain Credentials */}
+                    {activeWallet && (
+                      <button
+                        onClick={handleViewCredentials}
+                        className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95 mb-[1.125rem]"
+                        style={{ fontSize: '2rem', minHeight: '80px' }}
+                      >
+                        My Credentials
+                      </button>
+                    )}
+
+                    <button
+                      onClick={handleViewTracks}
+                      className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95 mb-[1.125rem]"
+                      style={{ fontSize: '2rem', minHeight: '80px' }}
+                    >
+                      Learning Paths
+                    </button>
+
+                    <button
+                      onClick={() => setState('HISTORY')}
+                      className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95 mb-[1.125rem]"
+                      style={{ fontSize: '2rem', minHeight: '80px' }}
+                    >
+                      History
+                    </button>
+
+                    <button
+                      onClick={() => setState('LEADERBOARD')}
+                      className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95 mb-[1.125rem]"
+                      style={{ fontSize: '2rem', minHeight: '80px' }}
+                    >
+                      Leaderboard
+                    </button>
+
+                    {/* Privy Connection, also for adding an external wallet next to the Farcaster one */}
                     {!authenticated && (
                       <button
                         onClick={handleConnectPrivy}
-                        className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95"
+                        className="w-full py-8 px-6 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium text-4xl rounded-full transition-all active:scale-95 mb-[1.125rem]"
                         style={{ fontSize: '2rem', minHeight: '80px' }}
                       >
-                        Connect Wallet
+                        {activeWallet ? 'Connect Another Wallet' : 'Connect Wallet'}
                       </button>
                     )}
+
+                    {renderWalletPicker()}
+
+                    {!!farcasterContext.fid && (
+                      <div className="text-left">{renderFidStatus(fidVerification)}</div>
+                    )}
                   </div>
                 </div>
               )}
 
               {/* CHALLENGE STATE: Using your .notebook-input class */}
-              {state === 'CHALLENGE' && (
+              {state === 'CHALLENGE' && currentChallenge && (
                 <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
                   <h2 className="text-2xl font-bold tracking-tight">The Challenge</h2>
+
+                  {selectionReason && (
+                    <p className="text-indigo-300/80 text-xs leading-relaxed">{selectionReason}</p>
+                  )}
                   
                   {/* Instructions */}
                   <p className="text-zinc-400 text-sm leading-relaxed">
@@ -317,6 +909,12 @@ function AppContent() {
                     onChange={(e) => setUserAnswer(e.target.value)}
                   />
 
+                  {gradingError && (
+                    <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
+                      <p className="text-red-300 text-sm">{gradingError}</p>
+                    </div>
+                  )}
+
                   {/* Validation Feedback */}
                   {validationResult && !validationResult.passed && (
                     <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
@@ -325,18 +923,78 @@ function AppContent() {
                     </div>
                   )}
 
+                  {/* Parsed Email Sections */}
+                  {validationResult && !validationResult.passed && validationResult.email && (
+                    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+                      <p className="text-xs text-zinc-400 uppercase tracking-wide font-bold">How we read your email</p>
+                      {[
+                        { label: 'Salutation', value: validationResult.email.salutation },
+                        { label: 'Body', value: validationResult.email.body.join('\n') || null },
+                        { label: 'Closing', value: validationResult.email.closing },
+                        { label: 'Signature', value: validationResult.email.signature },
+                      ].map((section) => (
+                        <div key={section.label}>
+                          <p className="text-xs text-zinc-500 uppercase tracking-wide mb-1">{section.label}</p>
+                          {section.value ? (
+                            <p className="text-zinc-200 text-sm whitespace-pre-line">{section.value}</p>
+                          ) : (
+                            <p className="text-yellow-300/80 text-sm italic">Missing</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Rubric Checklist */}
+                  {validationResult && !validationResult.passed && validationResult.rubric.length > 0 && (
+                    <ul className="space-y-3">
+                      {validationResult.rubric.map((criterion) => {
+                        const isComplete = criterion.earned >= criterion.possible
+                        return (
+                          <li key={criterion.id} className="bg-white/5 border border-white/10 rounded-2xl p-4">
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="flex items-center gap-2">
+                                {isComplete ? (
+                                  <CircleCheck className="w-4 h-4 text-green-400 shrink-0" />
+                                ) : (
+                                  <CircleAlert className="w-4 h-4 text-yellow-400 shrink-0" />
+                                )}
+                                <p className="text-white text-sm font-bold">{criterion.label}</p>
+                              </div>
+                              <p className="text-zinc-400 text-xs font-mono">{criterion.earned}/{criterion.possible}</p>
+                            </div>
+                            {criterion.matched.length > 0 && (
+                              <p className="text-zinc-500 text-xs mt-2">
+                                Found: {criterion.matched.map(phrase => `"${phrase}"`).join(', ')}
+                              </p>
+                            )}
+                            {criterion.missing.length > 0 && (
+                              <ul className="mt-2 space-y-1">
+                                {criterion.missing.map((item) => (
+                                  <li key={item} className="text-yellow-200/80 text-xs">→ {item}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
+
+                  {renderWalletPicker()}
+
                   <button 
                     onClick={handleSubmitChallenge}
-                    disabled={userAnswer.trim().length === 0 || isMinting}
+                    disabled={userAnswer.trim().length === 0 || isGrading || isMinting}
                     className="w-full py-4 bg-indigo-600 rounded-full font-bold button-glow active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isMinting ? 'Minting Badge...' : 'Seal on Soneium'}
+                    {isGrading ? 'Grading...' : `Seal on ${activeChain.label}`}
                   </button>
                 </div>
               )}
 
               {/* SUCCESS STATE */}
-              {state === 'SUCCESS' && (
+              {state === 'SUCCESS' && currentChallenge && (
                 <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
                   <div className="flex flex-col items-center text-center space-y-4">
                     {/* Green Checkmark */}
@@ -352,13 +1010,40 @@ function AppContent() {
                     <h2 className="text-3xl font-bold tracking-tight">Skill Certified!</h2>
 
                     <p className="text-zinc-400 text-base leading-relaxed">
-                      {farcasterContext.username ? `@${farcasterContext.username}` : 'You'}, your {currentChallenge.category} proficiency is now recorded{authenticated ? ' onchain' : ''}.
+                      {farcasterContext.username ? `@${farcasterContext.username}` : 'You'}, your {currentChallenge.category} proficiency is now recorded{activeWallet ? ' onchain' : ''}.
                     </p>
 
+                    {/* Mint Progress */}
+                    {mintJob && mintJob.id === credential?.credentialNumber && !(mintJob.status === 'confirmed' && mintResult) && (
+                      <div className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+                        <div className="flex gap-1">
+                          {MINT_STEPS.map((step, index) => (
+                            <div
+                              key={step}
+                              className={`h-1 flex-1 rounded-full ${
+                                index < getMintStep(mintJob) || mintJob.status === 'confirmed'
+                                  ? 'bg-indigo-500'
+                                  : index === getMintStep(mintJob) && !isMintJobSettled(mintJob)
+                                    ? 'bg-indigo-500/50 animate-pulse'
+                                    : 'bg-white/10'
+                              }`}
+                            />
+                          ))}
+                        </div>
+                        <p className={`text-sm ${isMintJobSettled(mintJob) && mintJob.status !== 'confirmed' ? 'text-yellow-300' : 'text-zinc-300'}`}>
+                          {describeMintJob(mintJob)}
+                        </p>
+                        {mintJob.txHash && !isMintJobSettled(mintJob) && (
+                          <p className="text-xs text-zinc-500">You can close the app; the mint will be picked up when you come back.</p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Mint Error Display */}
                     {mintError && (
-                      <div className="w-full bg-yellow-900/20 border border-yellow-800/50 rounded-2xl p-4">
+                      <div className="w-full bg-yellow-900/20 border border-yellow-800/50 rounded-2xl p-4 space-y-3">
                         <p className="text-yellow-300 text-sm">{mintError}</p>
+                        {renderMintRecovery()}
                       </div>
                     )}
 
@@ -380,31 +1065,87 @@ function AppContent() {
                           <p className="text-white text-xl font-bold tracking-tight">
                             {farcasterContext.fid || 'N/A'}
                           </p>
+                          {credential && (
+                            <div className="mt-2">
+                              {renderFidStatus(
+                                credential.fidVerified
+                                  ? { status: 'verified' }
+                                  : checkFidBinding(farcasterIdentity, credential.fid, credential.wallet)
+                              )}
+                            </div>
+                          )}
                         </div>
                         
                         <div>
                           <p className="text-xs text-zinc-400 uppercase tracking-wide mb-1">Credential Number</p>
-                          <p className="text-zinc-300 text-sm font-mono">
-                            #{credentialNumber}
+                          <p className="text-zinc-300 text-sm font-mono break-all">
+                            #{credential?.credentialNumber}
                           </p>
                         </div>
 
+                        {credential && (
+                          <details className="text-xs text-zinc-400">
+                            <summary className="cursor-pointer uppercase tracking-wide">How to verify</summary>
+                            <p className="mt-2 leading-relaxed">
+                              keccak256(abi.encode(fid, wallet, challengeId, answerDigest, timestamp)) with:
+                            </p>
+                            <dl className="mt-2 space-y-1 font-mono break-all">
+                              <div><dt className="inline text-zinc-500">fid </dt><dd className="inline text-zinc-300">{credential.fid}</dd></div>
+                              <div><dt className="inline text-zinc-500">wallet </dt><dd className="inline text-zinc-300">{credential.wallet}</dd></div>
+                              <div><dt className="inline text-zinc-500">challengeId </dt><dd className="inline text-zinc-300">{credential.challengeId}</dd></div>
+                              <div><dt className="inline text-zinc-500">answerDigest </dt><dd className="inline text-zinc-300">{credential.answerDigest}</dd></div>
+                              <div><dt className="inline text-zinc-500">timestamp </dt><dd className="inline text-zinc-300">{credential.timestamp}</dd></div>
+                            </dl>
+                          </details>
+                        )}
+
                         {mintResult?.txHash && (
                           <div className="pt-2 border-t border-white/10">
                             <p className="text-xs text-zinc-400 uppercase tracking-wide mb-1">Transaction Hash</p>
                             <a
-                              href={`${SONEIUM_MINATO.blockExplorers.default.url}/tx/${mintResult.txHash}`}
+                              href={getExplorerTxUrl(mintResult.txHash) ?? undefined}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-indigo-400 text-xs font-mono hover:text-indigo-300 break-all"
                             >
                               {mintResult.txHash.slice(0, 10)}...{mintResult.txHash.slice(-8)}
                             </a>
+                            {mintResult.sponsored && (
+                              <p className="text-xs text-emerald-400 mt-1">Gas sponsored by SKÜL</p>
+                            )}
+                            {credential?.txHash && (
+                              <a
+                                href={getVerifyPath(credential)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-indigo-400 text-xs mt-2 hover:text-indigo-300"
+                              >
+                                Public verification page <ExternalLink className="w-3 h-3" />
+                              </a>
+                            )}
                           </div>
                         )}
                       </div>
                     </div>
 
+                    {/* Soulbound Badge */}
+                    {mintResult?.tokenId && (
+                      <a
+                        href={getExplorerTokenUrl(CONTRACT_ADDRESS, mintResult.tokenId) ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="w-full block space-y-2"
+                      >
+                        {badgeImage && (
+                          <img src={badgeImage} alt={`Badge #${mintResult.tokenId}`} className="w-full rounded-2xl" />
+                        )}
+                        <p className="flex items-center justify-center gap-1 text-indigo-400 text-xs hover:text-indigo-300">
+                          Soulbound badge #{mintResult.tokenId}
+                          <ExternalLink className="w-3 h-3" />
+                        </p>
+                      </a>
+                    )}
+
                     {/* Buttons */}
                     <div className="w-full space-y-4">
                       <button
@@ -426,10 +1167,300 @@ function AppContent() {
                 </div>
               )}
 
+              {/* CREDENTIALS STATE */}
+              {state === 'CREDENTIALS' && (
+                <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
+                  <div className="flex items-center gap-3">
+                    <Award className="w-7 h-7 text-indigo-400" />
+                    <h2 className="text-2xl font-bold tracking-tight">My Credentials</h2>
+                  </div>
+
+                  {isLoadingCredentials && (
+                    <p className="text-zinc-400 text-sm">Reading credentials from {activeChain.label}...</p>
+                  )}
+
+                  {credentialsError && (
+                    <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
+                      <p className="text-red-300 text-sm">{credentialsError}</p>
+                    </div>
+                  )}
+
+                  {!isLoadingCredentials && !credentialsError && credentials.length === 0 && (
+                    <p className="text-zinc-400 text-sm">No credentials yet. Pass a challenge to earn your first one.</p>
+                  )}
+
+                  <div className="space-y-3">
+                    {credentials.map((credential) => (
+                      <a
+                        key={credential.index}
+                        href={
+                          (credential.txHash
+                            ? getExplorerTxUrl(credential.txHash)
+                            : getExplorerAddressUrl(credentialsOwner ?? CONTRACT_ADDRESS)) ?? undefined
+                        }
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block certificate-card rounded-2xl p-4 hover:border-indigo-400/50 transition-all"
+                      >
+                        <div className="flex items-center justify-between">
+                          <p className="text-white font-bold tracking-tight">{credential.skillName}</p>
+                          <ExternalLink className="w-4 h-4 text-indigo-400" />
+                        </div>
+                        <p className="text-zinc-400 text-xs mt-2">
+                          FID {credential.fid}
+                          {credential.challengeId && ` · ${getChallengeById(credential.challengeId)?.title ?? credential.challengeId}`}
+                          {credential.score !== undefined && ` · ${credential.score}/100`}
+                        </p>
+                        {credential.credentialHash && (
+                          <p className="text-zinc-500 text-xs font-mono break-all">#{credential.credentialHash}</p>
+                        )}
+                        <p className="text-zinc-500 text-xs font-mono">
+                          {new Date(credential.completedAt * 1000).toLocaleString()}
+                        </p>
+                      </a>
+                    ))}
+                  </div>
+
+                  <button
+                    onClick={handleReset}
+                    className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium rounded-full transition-all active:scale-95"
+                  >
+                    Back
+                  </button>
+                </div>
+              )}
+
+              {/* HISTORY STATE */}
+              {state === 'HISTORY' && (
+                <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
+                  <div className="flex items-center gap-3">
+                    <History className="w-7 h-7 text-indigo-400" />
+                    <h2 className="text-2xl font-bold tracking-tight">History</h2>
+                  </div>
+
+                  {attempts.length === 0 && (
+                    <p className="text-zinc-400 text-sm">No attempts yet. Start a challenge to build your history.</p>
+                  )}
+
+                  {attempts.length > 0 && (
+                    <ul className="space-y-3">
+                      {[...attempts].reverse().map((attempt, index) => (
+                        <li key={attempt.id ?? `${attempt.completedAt}-${index}`} className="certificate-card rounded-2xl p-4 space-y-2">
+                          <div className="flex items-center justify-between gap-3">
+                            <p className="text-white text-sm font-bold tracking-tight">
+                              {getChallengeById(attempt.challengeId)?.title ?? attempt.challengeId}
+                            </p>
+                            <p className={`text-xs font-mono ${attempt.passed ? 'text-green-400' : 'text-red-400'}`}>
+                              {attempt.score}/100
+                            </p>
+                          </div>
+                          <p className="text-zinc-500 text-xs">{new Date(attempt.completedAt).toLocaleString()}</p>
+
+                          {attempt.credential && (
+                            <p className="text-zinc-300 text-xs font-mono break-all">{attempt.credential.credentialNumber}</p>
+                          )}
+                          {attempt.mint?.txHash && (
+                            <a
+                              href={getExplorerTxUrl(attempt.mint.txHash) ?? undefined}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block text-indigo-400 text-xs font-mono hover:text-indigo-300 break-all"
+                            >
+                              {attempt.mint.txHash.slice(0, 10)}...{attempt.mint.txHash.slice(-8)}
+                            </a>
+                          )}
+                          {attempt.mint && !attempt.mint.success && (
+                            <p className="text-yellow-300 text-xs">Mint failed: {attempt.mint.error}</p>
+                          )}
+                          {!attempt.mint && attempt.credential && (() => {
+                            const job = mintJobs.find(item => item.id === attempt.credential?.credentialNumber)
+                            return job && !isMintJobSettled(job) && (
+                              <p className="text-indigo-300 text-xs">{describeMintJob(job)}</p>
+                            )
+                          })()}
+
+                          {attempt.answer && (
+                            <details className="text-xs text-zinc-400">
+                              <summary className="cursor-pointer">Your answer</summary>
+                              <p className="mt-2 whitespace-pre-wrap text-zinc-300">{attempt.answer}</p>
+                              {attempt.result && <p className="mt-2 italic">{attempt.result.feedback}</p>}
+                            </details>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <button
+                    onClick={handleReset}
+                    className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium rounded-full transition-all active:scale-95"
+                  >
+                    Back
+                  </button>
+                </div>
+              )}
+
+              {/* TRACKS STATE */}
+              {state === 'TRACKS' && (
+                <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
+                  <div className="flex items-center gap-3">
+                    <Route className="w-7 h-7 text-indigo-400" />
+                    <h2 className="text-2xl font-bold tracking-tight">Learning Paths</h2>
+                  </div>
+
+                  {getTracks().map((track) => {
+                    const progress = getTrackProgress(track, passedChallengeIds)
+                    return (
+                      <div key={track.id} className="certificate-card rounded-2xl p-5 space-y-4">
+                        <div className="flex items-center justify-between">
+                          <p className="text-white font-bold tracking-tight">{track.title}</p>
+                          <p className="text-zinc-400 text-xs font-mono">
+                            {progress.passedCount}/{track.steps.length}
+                          </p>
+                        </div>
+
+                        <ol className="space-y-2">
+                          {progress.steps.map(({ step, status }) => {
+                            const challenge = getChallengeById(step.challengeId)
+                            return (
+                              <li key={step.id}>
+                                <button
+                                  onClick={() => handleStartTrackStep(step.challengeId)}
+                                  disabled={status === 'locked'}
+                                  className="w-full flex items-center justify-between gap-3 rounded-xl px-3 py-2 bg-white/5 border border-white/10 text-left transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  <div className="flex items-center gap-2">
+                                    {status === 'passed' && <CircleCheck className="w-4 h-4 text-green-400 shrink-0" />}
+                                    {status === 'unlocked' && <Sparkles className="w-4 h-4 text-indigo-400 shrink-0" />}
+                                    {status === 'locked' && <Lock className="w-4 h-4 text-zinc-500 shrink-0" />}
+                                    <span className="text-sm text-zinc-200">{challenge?.prompt ?? step.challengeId}</span>
+                                  </div>
+                                  {challenge?.difficulty && (
+                                    <span className="text-[10px] uppercase tracking-wide text-zinc-500">{challenge.difficulty}</span>
+                                  )}
+                                </button>
+                              </li>
+                            )
+                          })}
+                        </ol>
+
+                        {progress.isComplete && registryVersion === 3 && (
+                          <p className="text-zinc-400 text-xs">
+                            Track credentials can't be minted on this registry, which only records challenge answers its issuer has graded.
+                          </p>
+                        )}
+
+                        {progress.isComplete && registryVersion !== 3 && (
+                          <button
+                            onClick={() => handleMintTrackCredential(track)}
+                            disabled={isMinting}
+                            className="w-full py-3 bg-indigo-600 rounded-full font-bold button-glow active:scale-95 transition-all disabled:opacity-50"
+                          >
+                            {isMinting && mintingTrackId === track.id
+                              ? mintJob ? describeMintJob(mintJob) : 'Minting Badge...'
+                              : `Mint ${track.credential} Credential`}
+                          </button>
+                        )}
+
+                        {mintingTrackId === track.id && mintError && (
+                          <div className="bg-yellow-900/20 border border-yellow-800/50 rounded-2xl p-4 space-y-3">
+                            <p className="text-yellow-300 text-sm">{mintError}</p>
+                            {renderMintRecovery()}
+                          </div>
+                        )}
+
+                        {mintingTrackId === track.id && mintResult?.txHash && (
+                          <a
+                            href={getExplorerTxUrl(mintResult.txHash) ?? undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-indigo-400 text-xs font-mono hover:text-indigo-300 break-all"
+                          >
+                            {mintResult.txHash.slice(0, 10)}...{mintResult.txHash.slice(-8)}
+                          </a>
+                        )}
+                      </div>
+                    )
+                  })}
+
+                  <button
+                    onClick={handleReset}
+                    className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium rounded-full transition-all active:scale-95"
+                  >
+                    Back
+                  </button>
+                </div>
+              )}
+
+              {/* LEADERBOARD STATE */}
+              {state === 'LEADERBOARD' && (
+                <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
+                  <div className="flex items-center gap-3">
+                    <Trophy className="w-7 h-7 text-indigo-400" />
+                    <h2 className="text-2xl font-bold tracking-tight">Leaderboard</h2>
+                  </div>
+
+                  {/* Category Tabs */}
+                  <div className="flex flex-wrap gap-2">
+                    {[null, ...Object.keys(leaderboards.bySkill)].map((skill) => (
+                      <button
+                        key={skill ?? 'overall'}
+                        onClick={() => setLeaderboardSkill(skill)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border transition-all ${
+                          leaderboardSkill === skill
+                            ? 'bg-indigo-600 border-indigo-500 text-white'
+                            : 'bg-white/5 border-white/10 text-zinc-400'
+                        }`}
+                      >
+                        {skill ?? 'All Skills'}
+                      </button>
+                    ))}
+                  </div>
+
+                  {leaderboardError && (
+                    <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
+                      <p className="text-red-300 text-sm">{leaderboardError}</p>
+                    </div>
+                  )}
+
+                  {leaderboardEntries.length === 0 ? (
+                    <p className="text-zinc-400 text-sm">No credentials indexed yet.</p>
+                  ) : (
+                    <ol className="space-y-2">
+                      {leaderboardEntries.map((entry) => (
+                        <li
+                          key={entry.fid}
+                          className={`flex items-center justify-between rounded-2xl px-4 py-3 border ${
+                            entry.fid === farcasterContext.fid
+                              ? 'bg-indigo-500/10 border-indigo-500/50'
+                              : 'bg-white/5 border-white/10'
+                          }`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <span className="text-zinc-500 text-sm font-mono w-6">#{entry.rank}</span>
+                            <span className="text-white font-bold">FID {entry.fid}</span>
+                          </div>
+                          <span className="text-indigo-300 text-sm font-bold">
+                            {entry.credentialCount} {entry.credentialCount === 1 ? 'credential' : 'credentials'}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  <button
+                    onClick={handleReset}
+                    className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium rounded-full transition-all active:scale-95"
+                  >
+                    Back
+                  </button>
+                </div>
+              )}
+
             </div>
             
             <p className="mt-12 text-[10px] font-black text-zinc-700 tracking-[0.4em] uppercase">
-              Secured by Soneium Minato
+              Secured by {activeChain.label}
             </p>
           </div>
         )}
@@ -438,8 +1469,189 @@ function AppContent() {
   )
 }
 
+// Follows the URL, including back and forward navigation
+function useRoute(): AppRoute {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location))
+  useEffect(() => subscribeToRoute(() => setRoute(parseRoute(window.location))), [])
+  return route
+}
+
+// Reads the credentials a verification link points at, straight from the chain
+async function loadVerifiedCredentials(route: Extract<AppRoute, { name: 'verify-address' | 'verify-tx' }>): Promise<IssuedCredential[]> {
+  if (route.name === 'verify-tx') {
+    return getIssuedCredentials(route.hash, activeChain.registryAddress)
+  }
+  const credentials = await getCredentials(route.address, activeChain.registryAddress)
+  return credentials.map(credential => ({
+    user: route.address,
+    fid: credential.fid,
+    skillName: credential.skillName,
+    completedAt: credential.completedAt,
+    challengeId: credential.challengeId,
+    score: credential.score,
+    credentialHash: credential.credentialHash,
+  }))
+}
+
+/**
+ * Public, read-only certificate page for /verify/:address and /verify/tx/:hash.
+ * Needs no wallet or Farcaster client, so links can be opened by anyone.
+ */
+function VerifyCredentialPage({ route }: { route: Exclude<AppRoute, { name: 'app' }> }) {
+  const [issued, setIssued] = useState<IssuedCredential[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (route.name === 'verify-invalid') return
+
+    let cancelled = false
+    loadVerifiedCredentials(route)
+      .then((credentials) => {
+        if (!cancelled) setIssued(credentials)
+      })
+      .catch((error) => {
+        console.error('Failed to read credentials for verification:', error)
+        if (!cancelled) setError((error as Error).message || `Failed to read credentials from ${activeChain.label}.`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [route])
+
+  const claim = route.name === 'verify-invalid' ? null : route.claim
+  const check = claim && issued ? checkCredentialClaim(claim, issued) : null
+  // The claimed credential first, when the chain has it
+  const shown = issued && check?.match ? [check.match, ...issued.filter(credential => credential !== check.match)] : issued
+
+  return (
+    <div className="min-h-screen bg-[#0A0A0B] text-white overflow-x-hidden flex flex-col items-center justify-center p-6 sm:p-8">
+      <div className="w-full max-w-[400px] flex flex-col gap-8">
+        <div className="glass rounded-[2.5rem] p-8 fade-in space-y-6">
+          <div className="flex items-center gap-3">
+            <Shield className="w-7 h-7 text-indigo-400" />
+            <h2 className="text-2xl font-bold tracking-tight">Verify Credential</h2>
+          </div>
+
+          {route.name === 'verify-invalid' && (
+            <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
+              <p className="text-red-300 text-sm">This verification link is malformed. It should end in a wallet address or /tx/ and a transaction hash.</p>
+            </div>
+          )}
+
+          {route.name !== 'verify-invalid' && !issued && !error && (
+            <p className="text-zinc-400 text-sm">Reading credentials from {activeChain.label}...</p>
+          )}
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4">
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          {claim && check && (
+            check.issues.length === 0 ? (
+              <div className="bg-emerald-900/20 border border-emerald-800/50 rounded-2xl p-4 space-y-1">
+                <p className="flex items-center gap-2 text-emerald-300 text-sm font-bold">
+                  <CircleCheck className="w-4 h-4" /> Matches {activeChain.label}
+                </p>
+                <p className="text-zinc-400 text-xs">
+                  {claim.input
+                    ? 'The credential number derives from its inputs, and the registry issued it to this FID and wallet.'
+                    : 'The registry issued a credential with this number.'}
+                </p>
+              </div>
+            ) : (
+              <div className="bg-red-900/20 border border-red-800/50 rounded-2xl p-4 space-y-2">
+                <p className="flex items-center gap-2 text-red-300 text-sm font-bold">
+                  <CircleAlert className="w-4 h-4" /> Does not match {activeChain.label}
+                </p>
+                <ul className="text-red-300/80 text-xs space-y-1 list-disc pl-4">
+                  {check.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+                <p className="text-zinc-500 text-xs font-mono break-all">Claimed #{claim.credentialNumber}</p>
+              </div>
+            )
+          )}
+
+          {shown?.length === 0 && (
+            <p className="text-zinc-400 text-sm">
+              {route.name === 'verify-tx' ? 'This transaction did not issue a SKÜL credential.' : 'This wallet holds no SKÜL credentials.'}
+            </p>
+          )}
+
+          <div className="space-y-4">
+            {shown?.map((credential, index) => {
+              const txUrl = credential.txHash && getExplorerTxUrl(credential.txHash)
+              return (
+                <div
+                  key={`${credential.credentialHash ?? credential.skillName}-${index}`}
+                  className={`certificate-card rounded-2xl p-6 space-y-3 ${credential === check?.match ? 'border-indigo-400/60' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5 text-indigo-400" />
+                    <p className="text-xs text-zinc-400 uppercase tracking-wide font-bold">DIGITAL CERTIFICATE</p>
+                  </div>
+                  <p className="text-white text-xl font-bold tracking-tight">{credential.skillName}</p>
+                  <p className="text-zinc-400 text-xs">
+                    FID {credential.fid}
+                    {credential.challengeId && ` · ${credential.challengeId}`}
+                    {credential.score !== undefined && ` · ${credential.score}/100`}
+                  </p>
+                  <div>
+                    <p className="text-xs text-zinc-400 uppercase tracking-wide mb-1">Wallet</p>
+                    <a
+                      href={getExplorerAddressUrl(credential.user) ?? undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-400 text-xs font-mono hover:text-indigo-300 break-all"
+                    >
+                      {credential.user}
+                    </a>
+                  </div>
+                  {credential.credentialHash && (
+                    <div>
+                      <p className="text-xs text-zinc-400 uppercase tracking-wide mb-1">Credential Number</p>
+                      <p className="text-zinc-300 text-sm font-mono break-all">#{credential.credentialHash}</p>
+                    </div>
+                  )}
+                  <p className="text-zinc-500 text-xs font-mono">
+                    Issued {new Date(credential.completedAt * 1000).toLocaleString()}
+                  </p>
+                  {credential.txHash && (
+                    <a
+                      href={txUrl ?? undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-indigo-400 text-xs font-mono hover:text-indigo-300 break-all"
+                    >
+                      {credential.txHash.slice(0, 10)}...{credential.txHash.slice(-8)}
+                      {txUrl && <ExternalLink className="w-3 h-3" />}
+                    </a>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <button
+            onClick={() => navigate('/')}
+            className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-zinc-400 font-medium rounded-full transition-all active:scale-95"
+          >
+            Open SKÜL
+          </button>
+        </div>
+
+        <p className="text-center text-[10px] font-black text-zinc-700 tracking-[0.4em] uppercase">
+          Read from {activeChain.label}
+        </p>
+      </div>
+    </div>
+  )
+}
+
 function App() {
   const privyAppId = import.meta.env.VITE_PRIVY_APP_ID
+  const route = useRoute()
   
   if (!privyAppId) {
     console.error('VITE_PRIVY_APP_ID is not set. Please create a .env file with your Privy App ID.')
@@ -452,6 +1664,12 @@ function App() {
     })
   }, [])
 
+  // Verification pages are public and read-only, so they skip wallet setup
+  if (route.name !== 'app') {
+    // Keyed by the route, so following another verification link starts from a fresh load
+    return <VerifyCredentialPage key={JSON.stringify(route)} route={route} />
+  }
+
   return (
     <PrivyProvider
       appId={privyAppId || ''}
@@ -461,8 +1679,8 @@ function App() {
           theme: 'dark',
           accentColor: '#9333ea',
         },
-        defaultChain: SONEIUM_MINATO,
-        supportedChains: [SONEIUM_MINATO],
+        defaultChain: activeChain.chain,
+        supportedChains: [activeChain.chain],
       }}
     >
       <AppContent />
@@ -0,0 +1,189 @@
+/**
+ * Attempt History
+ * Persists graded attempts and in-progress drafts in IndexedDB so answers,
+ * scores and mint outcomes survive reloads and the mini app being backgrounded
+ */
+
+import type { ValidationResult } from './validation'
+import type { CredentialRecord, MintResult } from './badge'
+
+export interface AttemptRecord {
+  id?: number // assigned by IndexedDB
+  challengeId: string
+  category: string
+  difficulty?: 'easy' | 'medium' | 'hard'
+  score: number
+  passed: boolean
+  completedAt: number // ms since epoch
+  answer?: string // absent on attempts migrated from the old localStorage log
+  result?: ValidationResult
+  credential?: CredentialRecord // inputs needed to recompute the credential number
+  mint?: MintResult
+}
+
+export interface Draft {
+  challengeId: string
+  answer: string
+  updatedAt: number // ms since epoch
+}
+
+const DB_NAME = 'skul'
+const DB_VERSION = 1
+const ATTEMPTS_STORE = 'attempts'
+const DRAFTS_STORE = 'drafts'
+const LEGACY_STORAGE_KEY = 'skul:attempts'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Copies the attempt log kept in localStorage by earlier versions into the new store
+function migrateLegacyAttempts(transaction: IDBTransaction): void {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!raw) return
+
+    const store = transaction.objectStore(ATTEMPTS_STORE)
+    for (const attempt of JSON.parse(raw) as AttemptRecord[]) {
+      store.add(attempt)
+    }
+    transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_STORAGE_KEY))
+  } catch (error) {
+    console.error('Failed to migrate attempt log:', error)
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const database = request.result
+        const attempts = database.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id', autoIncrement: true })
+        attempts.createIndex('completedAt', 'completedAt')
+        database.createObjectStore(DRAFTS_STORE, { keyPath: 'challengeId' })
+        migrateLegacyAttempts(request.transaction!)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry if IndexedDB was unavailable this time
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+async function getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const database = await openDatabase()
+  return database.transaction(name, mode).objectStore(name)
+}
+
+/**
+ * Loads every stored attempt, oldest first
+ */
+export async function loadAttempts(): Promise<AttemptRecord[]> {
+  try {
+    const store = await getStore(ATTEMPTS_STORE, 'readonly')
+    return await promisify(store.index('completedAt').getAll() as IDBRequest<AttemptRecord[]>)
+  } catch (error) {
+    console.error('Failed to load attempts:', error)
+    return []
+  }
+}
+
+/**
+ * Loads one stored attempt by id
+ */
+export async function loadAttempt(id: number): Promise<AttemptRecord | undefined> {
+  try {
+    const store = await getStore(ATTEMPTS_STORE, 'readonly')
+    return await promisify(store.get(id) as IDBRequest<AttemptRecord | undefined>)
+  } catch (error) {
+    console.error('Failed to load attempt:', error)
+    return undefined
+  }
+}
+
+/**
+ * Stores a new attempt
+ * @returns The attempt with its assigned id, or unchanged if it couldn't be saved
+ */
+export async function recordAttempt(attempt: AttemptRecord): Promise<AttemptRecord> {
+  try {
+    const store = await getStore(ATTEMPTS_STORE, 'readwrite')
+    const id = await promisify(store.add(attempt))
+    return { ...attempt, id: id as number }
+  } catch (error) {
+    console.error('Failed to save attempt:', error)
+    return attempt
+  }
+}
+
+/**
+ * Overwrites a stored attempt, e.g. once its credential has been minted
+ */
+export async function updateAttempt(attempt: AttemptRecord): Promise<void> {
+  if (attempt.id === undefined) return
+  try {
+    const store = await getStore(ATTEMPTS_STORE, 'readwrite')
+    await promisify(store.put(attempt))
+  } catch (error) {
+    console.error('Failed to update attempt:', error)
+  }
+}
+
+export function getPassedChallengeIds(attempts: AttemptRecord[]): Set<string> {
+  return new Set(attempts.filter(attempt => attempt.passed).map(attempt => attempt.challengeId))
+}
+
+export async function saveDraft(draft: Draft): Promise<void> {
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readwrite')
+    await promisify(store.put(draft))
+  } catch (error) {
+    console.error('Failed to save draft:', error)
+  }
+}
+
+export async function loadDraft(challengeId: string): Promise<Draft | undefined> {
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readonly')
+    return await promisify(store.get(challengeId) as IDBRequest<Draft | undefined>)
+  } catch (error) {
+    console.error('Failed to load draft:', error)
+    return undefined
+  }
+}
+
+/**
+ * Returns the most recently edited non-empty draft, if any
+ */
+export async function getLatestDraft(): Promise<Draft | undefined> {
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readonly')
+    const drafts = await promisify(store.getAll() as IDBRequest<Draft[]>)
+    return drafts
+      .filter(draft => draft.answer.trim().length > 0)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0]
+  } catch (error) {
+    console.error('Failed to load drafts:', error)
+    return undefined
+  }
+}
+
+export async function clearDraft(challengeId: string): Promise<void> {
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readwrite')
+    await promisify(store.delete(challengeId))
+  } catch (error) {
+    console.error('Failed to clear draft:', error)
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Issuer Attestations
+ * EIP-712 attestations that a SkulAttestedRegistry requires before it records a
+ * credential. The issuer re-scores the answer itself, or takes the score from a
+ * grade token it can verify, and only signs passing attempts.
+ */
+
+import { toHex, type LocalAccount } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { getChallengeById, type Challenge } from './challenges'
+import { scoreAnswer } from './validation'
+import { deriveCredentialNumber, digestAnswer } from './badge'
+
+export interface AttestationRequest {
+  user: `0x${string}` // wallet that will submit the credential
+  fid: number
+  challengeId: string
+  answer: string
+  timestamp: number // ms since epoch, the credential number's timestamp
+  gradeToken?: string // from the grading service, for answers it graded differently than the rules
+}
+
+export interface Attestation {
+  user: `0x${string}`
+  fid: number
+  skill: string
+  challengeId: string
+  score: number
+  credentialHash: `0x${string}`
+  nonce: string // uint256 as a decimal string
+  expiry: number // unix seconds
+  signature: `0x${string}`
+}
+
+export interface Issuer {
+  attest(request: AttestationRequest): Promise<Attestation>
+}
+
+/** The claims of a grade token, as far as the issuer needs them */
+export interface VerifiedGrade {
+  fid: number
+  challengeId: string
+  answerDigest: `0x${string}`
+  score: number
+  passed: boolean
+}
+
+export interface IssuerOptions {
+  account: LocalAccount
+  registryAddress: `0x${string}`
+  chainId: number
+  lookupChallenge?: (challengeId: string) => Challenge | undefined
+  ttlSeconds?: number // how long attestations are valid, and how far a request's timestamp may be from now
+  verifyGradeToken?: (token: string) => VerifiedGrade | null // grade tokens are ignored without one
+}
+
+export const DEFAULT_ATTESTATION_TTL_SECONDS = 600
+
+export const ATTESTATION_TYPES = {
+  Attestation: [
+    { name: 'user', type: 'address' },
+    { name: 'fid', type: 'uint256' },
+    { name: 'skill', type: 'string' },
+    { name: 'challengeId', type: 'string' },
+    { name: 'score', type: 'uint8' },
+    { name: 'credentialHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const
+
+export function getAttestationDomain(registryAddress: `0x${string}`, chainId: number) {
+  return {
+    name: 'SkulAttestedRegistry',
+    version: '1',
+    chainId,
+    verifyingContract: registryAddress,
+  } as const
+}
+
+function randomNonce(): bigint {
+  return BigInt(toHex(crypto.getRandomValues(new Uint8Array(32))))
+}
+
+/**
+ * Creates an issuer that re-scores answers with the rule-based scorers and
+ * signs an attestation for passing ones. With `verifyGradeToken`, a request's
+ * grade token is trusted instead, so LLM-graded answers get the score they
+ * were shown.
+ * Each wallet gets one credential per answer to a challenge: the issuer
+ * remembers the credential number it attested and only signs that one again,
+ * so a retry works but a new timestamp doesn't make a new credential. The
+ * record is in memory, like the service's rate limits.
+ * @throws from `attest` if the challenge is unknown, the grade token doesn't
+ * verify for this answer, the answer doesn't pass, the timestamp isn't recent,
+ * or the answer was already attested as another credential
+ */
+export function createIssuer(options: IssuerOptions): Issuer {
+  const lookupChallenge = options.lookupChallenge ?? getChallengeById
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_ATTESTATION_TTL_SECONDS
+  const domain = getAttestationDomain(options.registryAddress, options.chainId)
+  // Credential numbers attested so far, by wallet, challenge and answer digest
+  const attested = new Map<string, `0x${string}`>()
+
+  return {
+    async attest(request) {
+      const challenge = lookupChallenge(request.challengeId)
+      if (!challenge) {
+        throw new Error(`Unknown challenge "${request.challengeId}"`)
+      }
+
+      const answerDigest = digestAnswer(request.answer)
+      let result: { score: number; passed: boolean }
+      if (request.gradeToken && options.verifyGradeToken) {
+        const grade = options.verifyGradeToken(request.gradeToken)
+        if (!grade || grade.fid !== request.fid || grade.challengeId !== challenge.id || grade.answerDigest !== answerDigest) {
+          throw new Error('The grade token is invalid, expired or for a different answer. Submit the answer again.')
+        }
+        result = grade
+      } else {
+        result = scoreAnswer(challenge.scorer, request.answer, challenge.prompt, challenge.scorerConfig)
+      }
+      if (!result.passed) {
+        throw new Error(`Answer scored ${result.score}/100 and did not pass`)
+      }
+
+      // The credential number is derived here, not taken from the client
+      const credentialHash = deriveCredentialNumber({
+        fid: request.fid,
+        wallet: request.user,
+        challengeId: challenge.id,
+        answerDigest,
+        timestamp: request.timestamp,
+      })
+      const answerKey = `${request.user.toLowerCase()}:${challenge.id}:${answerDigest}`
+      const previous = attested.get(answerKey)
+      if (previous && previous !== credentialHash) {
+        throw new Error('This answer was already attested as another credential for this wallet.')
+      }
+      if (!previous && Math.abs(Date.now() - request.timestamp) > ttlSeconds * 1000) {
+        throw new Error(`The credential's timestamp must be within ${ttlSeconds / 60} minutes of now`)
+      }
+      attested.set(answerKey, credentialHash)
+
+      const nonce = randomNonce()
+      const expiry = Math.floor(Date.now() / 1000) + ttlSeconds
+
+      const signature = await options.account.signTypedData({
+        domain,
+        types: ATTESTATION_TYPES,
+        primaryType: 'Attestation',
+        message: {
+          user: request.user,
+          fid: BigInt(request.fid),
+          skill: challenge.category,
+          challengeId: challenge.id,
+          score: result.score,
+          credentialHash,
+          nonce,
+          expiry: BigInt(expiry),
+        },
+      })
+
+      return {
+        user: request.user,
+        fid: request.fid,
+        skill: challenge.category,
+        challengeId: challenge.id,
+        score: result.score,
+        credentialHash,
+        nonce: nonce.toString(),
+        expiry,
+        signature,
+      }
+    },
+  }
+}
+
+/**
+ * Creates an issuer backed by the issuer service's `POST /attest` endpoint
+ * @param baseUrl e.g. http://localhost:8787
+ */
+export function createRemoteIssuer(baseUrl: string): Issuer {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/attest`
+
+  return {
+    async attest(request) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      })
+
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(data?.error || `Issuer responded with HTTP ${response.status}`)
+      }
+      return data as Attestation
+    },
+  }
+}
+
+/**
+ * Creates an in-process issuer from a private key. A stand-in for the issuer
+ * service in tests and local development; never ship a real issuer key to the browser.
+ */
+export function createLocalIssuer(
+  privateKey: `0x${string}`,
+  registryAddress: `0x${string}`,
+  chainId: number
+): Issuer {
+  return createIssuer({ account: privateKeyToAccount(privateKey), registryAddress, chainId })
+}
+
+/**
+ * Returns the configured issuer: the service at VITE_ISSUER_URL, or, in
+ * development only, the local stand-in when VITE_DEV_ISSUER_PRIVATE_KEY is set
+ * @throws if neither is configured
+ */
+export function getIssuer(registryAddress: `0x${string}`, chainId: number): Issuer {
+  const url = import.meta.env.VITE_ISSUER_URL
+  if (url) {
+    return createRemoteIssuer(url)
+  }
+
+  // Read only in development, so a production build neither signs with nor bundles the key
+  if (import.meta.env.DEV) {
+    const devKey = import.meta.env.VITE_DEV_ISSUER_PRIVATE_KEY
+    if (devKey) {
+      console.warn('Using the local issuer stand-in (VITE_DEV_ISSUER_PRIVATE_KEY). Do not use this in production.')
+      return createLocalIssuer(devKey as `0x${string}`, registryAddress, chainId)
+    }
+  }
+
+  throw new Error('This registry requires issuer attestations, but no issuer is configured (VITE_ISSUER_URL).')
+}
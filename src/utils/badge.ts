@@ -1,62 +1,244 @@
 /**
  * Badge Minting Utility
- * Handles onchain Proof of Skill badge minting on Soneium Minato Testnet
+ * Handles onchain Proof of Skill badge minting on the active chain (see chains.ts)
  */
 
-import { createWalletClient, createPublicClient, http, custom } from 'viem'
-
-// Soneium Minato Testnet Configuration
-export const SONEIUM_MINATO = {
-  id: 1946,
-  name: 'Soneium Minato Testnet',
-  network: 'soneium-minato',
-  nativeCurrency: {
-    name: 'Ether',
-    symbol: 'ETH',
-    decimals: 18,
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createWalletClient,
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  isAddressEqual,
+  keccak256,
+  parseAbiParameters,
+  parseEventLogs,
+  stringToHex,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type PublicClient,
+} from 'viem'
+import { getIssuer, type Attestation, type Issuer } from './attestation'
+import { createChainTransport, getActiveChain, getExplorerUrl, type ChainConfig } from './chains'
+import { getRelayer, isSponsorable, sendSponsored, type Relayer } from './relayer'
+import { getMintJobTracker, type MintJob, type MintJobTracker } from './mintJobs'
+import { classifyMintError, getMintErrorInfo, type MintErrorCode } from './mintErrors'
+
+const CREDENTIAL_ISSUED_V1_EVENT = {
+  anonymous: false,
+  inputs: [
+    { indexed: true, internalType: 'address', name: 'user', type: 'address' },
+    { indexed: true, internalType: 'uint256', name: 'fid', type: 'uint256' },
+    { indexed: false, internalType: 'string', name: 'skillName', type: 'string' },
+    { indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+  ],
+  name: 'CredentialIssued',
+  type: 'event',
+} as const
+
+const CREDENTIAL_ISSUED_V2_EVENT = {
+  anonymous: false,
+  inputs: [
+    { indexed: true, internalType: 'address', name: 'user', type: 'address' },
+    { indexed: true, internalType: 'uint256', name: 'fid', type: 'uint256' },
+    { indexed: false, internalType: 'string', name: 'skillName', type: 'string' },
+    { indexed: false, internalType: 'string', name: 'challengeId', type: 'string' },
+    { indexed: false, internalType: 'uint8', name: 'score', type: 'uint8' },
+    { indexed: true, internalType: 'bytes32', name: 'credentialHash', type: 'bytes32' },
+    { indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+  ],
+  name: 'CredentialIssued',
+  type: 'event',
+} as const
+
+// Both registry versions' CredentialIssued events, for reading logs from either
+export const CREDENTIAL_ISSUED_EVENTS = [CREDENTIAL_ISSUED_V1_EVENT, CREDENTIAL_ISSUED_V2_EVENT] as const
+
+// Contract ABI for SkulRegistry
+export const SKUL_REGISTRY_ABI = [
+  {
+    inputs: [
+      { internalType: 'uint256', name: '_fid', type: 'uint256' },
+      { internalType: 'string', name: '_skillName', type: 'string' },
+    ],
+    name: 'issueCredential',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
   },
-  rpcUrls: {
-    default: {
-      http: ['https://rpc.minato.soneium.org'],
-    },
-    public: {
-      http: ['https://rpc.minato.soneium.org'],
-    },
+  {
+    inputs: [{ internalType: 'address', name: '_user', type: 'address' }],
+    name: 'getCredentialCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
   },
-  blockExplorers: {
-    default: {
-      name: 'Blockscout',
-      url: 'https://soneium-minato.blockscout.com',
-    },
+  {
+    inputs: [
+      { internalType: 'address', name: '_user', type: 'address' },
+      { internalType: 'uint256', name: '_index', type: 'uint256' },
+    ],
+    name: 'getCredential',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'fid', type: 'uint256' },
+          { internalType: 'string', name: 'skillName', type: 'string' },
+          { internalType: 'uint256', name: 'completedAt', type: 'uint256' },
+        ],
+        internalType: 'struct SkulRegistry.Credential',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
   },
-  testnet: true,
-} as const
+  CREDENTIAL_ISSUED_V1_EVENT,
+] as const
 
-// Contract ABI for SkulRegistry
-const SKUL_REGISTRY_ABI = [
+// Reads and event shared by SkulRegistryV2, SkulBadge and SkulAttestedRegistry
+const REGISTRY_V2_INTERFACE = [
+  {
+    inputs: [{ internalType: 'address', name: '_user', type: 'address' }],
+    name: 'getCredentialCount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: '_user', type: 'address' },
+      { internalType: 'uint256', name: '_index', type: 'uint256' },
+    ],
+    name: 'getCredential',
+    outputs: [
+      {
+        components: [
+          { internalType: 'uint256', name: 'fid', type: 'uint256' },
+          { internalType: 'string', name: 'skillName', type: 'string' },
+          { internalType: 'string', name: 'challengeId', type: 'string' },
+          { internalType: 'uint8', name: 'score', type: 'uint8' },
+          { internalType: 'bytes32', name: 'credentialHash', type: 'bytes32' },
+          { internalType: 'uint256', name: 'completedAt', type: 'uint256' },
+        ],
+        internalType: 'struct SkulRegistryV2.Credential',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+    name: 'credentialHolder',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+    type: 'function',
+  },
+  CREDENTIAL_ISSUED_V2_EVENT,
+] as const
+
+// Contract ABI for SkulRegistryV2
+export const SKUL_REGISTRY_V2_ABI = [
+  {
+    inputs: [
+      { internalType: 'uint256', name: '_fid', type: 'uint256' },
+      { internalType: 'string', name: '_skillName', type: 'string' },
+      { internalType: 'string', name: '_challengeId', type: 'string' },
+      { internalType: 'uint8', name: '_score', type: 'uint8' },
+      { internalType: 'bytes32', name: '_credentialHash', type: 'bytes32' },
+    ],
+    name: 'issueCredential',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  ...REGISTRY_V2_INTERFACE,
+] as const
+
+// Contract ABI for SkulAttestedRegistry (reports version 3)
+export const SKUL_ATTESTED_REGISTRY_ABI = [
   {
     inputs: [
       { internalType: 'uint256', name: '_fid', type: 'uint256' },
       { internalType: 'string', name: '_skillName', type: 'string' },
+      { internalType: 'string', name: '_challengeId', type: 'string' },
+      { internalType: 'uint8', name: '_score', type: 'uint8' },
+      { internalType: 'bytes32', name: '_credentialHash', type: 'bytes32' },
+      { internalType: 'uint256', name: '_nonce', type: 'uint256' },
+      { internalType: 'uint256', name: '_expiry', type: 'uint256' },
+      { internalType: 'bytes', name: '_signature', type: 'bytes' },
     ],
     name: 'issueCredential',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'issuer',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  ...REGISTRY_V2_INTERFACE,
+] as const
+
+// Contract ABI for SkulBadge: the SkulRegistryV2 interface plus soulbound ERC-721 reads
+export const SKUL_BADGE_ABI = [
+  ...SKUL_REGISTRY_V2_ABI,
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'tokenURI',
+    outputs: [{ internalType: 'string', name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: '_owner', type: 'address' },
+      { internalType: 'uint256', name: '_index', type: 'uint256' },
+    ],
+    name: 'tokenOfOwnerByIndex',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'locked',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     anonymous: false,
     inputs: [
-      { indexed: true, internalType: 'address', name: 'user', type: 'address' },
-      { indexed: true, internalType: 'uint256', name: 'fid', type: 'uint256' },
-      { indexed: false, internalType: 'string', name: 'skillName', type: 'string' },
-      { indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'from', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'to', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
     ],
-    name: 'CredentialIssued',
+    name: 'Transfer',
     type: 'event',
   },
 ] as const
 
+// 1: SkulRegistry, 2: SkulRegistryV2 or SkulBadge, 3: SkulAttestedRegistry
+export type RegistryVersion = 1 | 2 | 3
+
 export interface BadgeMetadata {
   fid: number
   challengeId: string
@@ -64,27 +246,114 @@ export interface BadgeMetadata {
   category: string
   timestamp: number
   score?: number
+  answer?: string // needed to request an issuer attestation from a v3 registry
+  gradeToken?: string // the grading service's grade of `answer`, passed on to the issuer
+}
+
+/**
+ * The inputs a credential number is derived from. Anyone holding them can
+ * recompute the number with `deriveCredentialNumber`.
+ */
+export interface CredentialInput {
+  fid: number
+  wallet: `0x${string}` // zero address if no wallet was connected
+  challengeId: string
+  answerDigest: `0x${string}` // see digestAnswer
+  timestamp: number // ms since epoch
+}
+
+export interface CredentialRecord extends CredentialInput {
+  credentialNumber: `0x${string}`
+  txHash?: `0x${string}`
+  fidVerified?: boolean // the FID was proven with Sign In With Farcaster and the wallet belongs to it
+}
+
+export interface CredentialVerification {
+  valid: boolean
+  numberMatches: boolean // the credential number recomputes from its inputs
+  onchain: 'matched' | 'mismatched' | 'unchecked' // unchecked when there is no tx hash
+  issues: string[]
+}
+
+/**
+ * A credential as the registry recorded it, read from a CredentialIssued event
+ * or from the registry's storage
+ */
+export interface IssuedCredential {
+  user: `0x${string}`
+  fid: number
+  skillName: string
+  completedAt: number // unix seconds
+  // Only recorded by v2 registries; for v1 the number is read from the calldata suffix
+  challengeId?: string
+  score?: number
+  credentialHash?: `0x${string}`
+  txHash?: `0x${string}` // unknown when read from storage
+}
+
+/**
+ * What a shared credential claims: its number and, when the holder shared
+ * them, the inputs it is derived from
+ */
+export interface CredentialClaim {
+  credentialNumber: `0x${string}`
+  input?: CredentialInput
+}
+
+export interface CredentialClaimCheck {
+  match: IssuedCredential | null // the issued credential carrying the claimed number
+  issues: string[] // every mismatch between the claim and the chain data
 }
 
 export interface MintResult {
   success: boolean
   txHash?: string
-  error?: string
+  tokenId?: string // set when the registry is a SkulBadge and minted a soulbound token
+  sponsored?: boolean // the relayer paid the gas
+  error?: string // user-facing message
+  errorCode?: MintErrorCode // see mintErrors.ts for its retry policy
+}
+
+export interface MintOptions {
+  issuer?: Issuer // signs the attestation a v3 registry requires; defaults to the configured issuer
+  relayer?: Relayer | null // pays the gas through the forwarder; defaults to the configured relayer, null to opt out
+  tracker?: MintJobTracker // records the mint's progress; defaults to the active chain's tracker
+  attemptId?: number // the attempt the mint job reports back to
+}
+
+export interface BadgeTokenMetadata {
+  name: string
+  description: string
+  image: string // data:image/svg+xml;base64,... certificate
+  attributes: { trait_type: string; value: string | number; display_type?: string }[]
+}
+
+export interface OnchainCredential {
+  index: number
+  fid: number
+  skillName: string
+  completedAt: number // unix seconds (block timestamp)
+  // Only recorded by v2 registries
+  challengeId?: string
+  score?: number
+  credentialHash?: `0x${string}`
+  txHash?: `0x${string}` // the issuing transaction, when its log could be read
 }
 
 /**
- * Validates that the provider is connected to Soneium Minato Testnet
+ * Validates that the provider is connected to the active chain
  * @param provider The EIP-1193 provider from Privy
+ * @param config The chain to expect; defaults to the active chain
  * @returns true if on correct network, false otherwise
  */
-export async function validateNetwork(provider: any): Promise<boolean> {
+export async function validateNetwork(provider: any, config: ChainConfig = getActiveChain()): Promise<boolean> {
   try {
     const chainId = await provider.request({ method: 'eth_chainId' })
     const chainIdNumber = parseInt(chainId as string, 16)
     
-    if (chainIdNumber !== SONEIUM_MINATO.id) {
+    if (chainIdNumber !== config.chain.id) {
       console.error(
-        `Wrong network! Expected ${SONEIUM_MINATO.id} (Soneium Minato), got ${chainIdNumber}`
+        `Wrong network! Expected ${config.chain.id} (${config.label}), got ${chainIdNumber}`
       )
       return false
     }
@@ -96,16 +365,19 @@ export async function validateNetwork(provider: any): Promise<boolean> {
 }
 
 /**
- * Switches the wallet to Soneium Minato Testnet if not already connected
+ * Switches the wallet to the active chain if not already connected, adding it first if the wallet doesn't know it
  * @param provider The EIP-1193 provider from Privy
+ * @param config The chain to switch to; defaults to the active chain
  * @returns true if successfully switched or already on correct network
  */
-export async function ensureSoneiumNetwork(provider: any): Promise<boolean> {
+export async function ensureSoneiumNetwork(provider: any, config: ChainConfig = getActiveChain()): Promise<boolean> {
+  const chainIdHex = `0x${config.chain.id.toString(16)}`
+
   try {
     const chainId = await provider.request({ method: 'eth_chainId' })
     const chainIdNumber = parseInt(chainId as string, 16)
     
-    if (chainIdNumber === SONEIUM_MINATO.id) {
+    if (chainIdNumber === config.chain.id) {
       return true
     }
 
@@ -113,13 +385,13 @@ export async function ensureSoneiumNetwork(provider: any): Promise<boolean> {
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${SONEIUM_MINATO.id.toString(16)}` }],
+        params: [{ chainId: chainIdHex }],
       })
       
       // Verify switch was successful
       const newChainId = await provider.request({ method: 'eth_chainId' })
       const newChainIdNumber = parseInt(newChainId as string, 16)
-      return newChainIdNumber === SONEIUM_MINATO.id
+      return newChainIdNumber === config.chain.id
     } catch (switchError: any) {
       // If switch fails, try to add the network
       if (switchError.code === 4902) {
@@ -128,11 +400,11 @@ export async function ensureSoneiumNetwork(provider: any): Promise<boolean> {
             method: 'wallet_addEthereumChain',
             params: [
               {
-                chainId: `0x${SONEIUM_MINATO.id.toString(16)}`,
-                chainName: SONEIUM_MINATO.name,
-                nativeCurrency: SONEIUM_MINATO.nativeCurrency,
-                rpcUrls: SONEIUM_MINATO.rpcUrls.default.http,
-                blockExplorerUrls: [SONEIUM_MINATO.blockExplorers.default.url],
+                chainId: chainIdHex,
+                chainName: config.chain.name,
+                nativeCurrency: config.chain.nativeCurrency,
+                rpcUrls: config.rpcUrls,
+                blockExplorerUrls: config.explorerUrl ? [config.explorerUrl] : undefined,
               },
             ],
           })
@@ -140,34 +412,160 @@ export async function ensureSoneiumNetwork(provider: any): Promise<boolean> {
           // Try to switch again after adding
           await provider.request({
             method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${SONEIUM_MINATO.id.toString(16)}` }],
+            params: [{ chainId: chainIdHex }],
           })
           return true
         } catch (addError) {
-          console.error('Failed to add Soneium Minato network:', addError)
+          console.error(`Failed to add ${config.label} network:`, addError)
           return false
         }
       }
-      console.error('Failed to switch to Soneium Minato:', switchError)
+      console.error(`Failed to switch to ${config.label}:`, switchError)
       return false
     }
   } catch (error) {
-    console.error('Error ensuring Soneium network:', error)
+    console.error(`Error ensuring ${config.label} network:`, error)
     return false
   }
 }
 
+function createReadClient(): PublicClient {
+  return createPublicClient({
+    chain: getActiveChain().chain,
+    transport: createChainTransport(),
+  })
+}
+
+const registryVersions = new Map<string, RegistryVersion>()
+
 /**
- * Mints a Proof of Skill badge onchain via the SkulRegistry contract
+ * Detects which SkulRegistry version is deployed at an address. v1 registries
+ * don't implement `version()`, so a call that returns no data or reverts means v1.
+ * Results are cached per address; network errors are rethrown, not cached.
+ */
+export async function getRegistryVersion(
+  contractAddress: `0x${string}`,
+  publicClient: PublicClient = createReadClient()
+): Promise<RegistryVersion> {
+  const cached = registryVersions.get(contractAddress.toLowerCase())
+  if (cached) return cached
+
+  let version: RegistryVersion
+  try {
+    const reported = await publicClient.readContract({
+      address: contractAddress,
+      abi: SKUL_REGISTRY_V2_ABI,
+      functionName: 'version',
+    })
+    if (reported !== 2n && reported !== 3n) {
+      throw new Error(`Unsupported SkulRegistry version ${reported} at ${contractAddress}`)
+    }
+    version = Number(reported) as RegistryVersion
+  } catch (error) {
+    const isV1 = error instanceof BaseError && !!error.walk(cause =>
+      cause instanceof ContractFunctionZeroDataError || cause instanceof ContractFunctionRevertedError
+    )
+    if (!isV1) throw error
+    version = 1
+  }
+
+  registryVersions.set(contractAddress.toLowerCase(), version)
+  return version
+}
+
+/**
+ * Mints a Proof of Skill badge onchain via the SkulRegistry contract. The mint
+ * is recorded as a job in `options.tracker`, so its progress can be followed
+ * and its transaction picked up again if the app closes before it's final.
  * @param metadata The badge metadata to mint
  * @param provider The EIP-1193 provider from Privy (ethereum provider)
- * @param contractAddress The deployed SkulRegistry contract address
+ * @param contractAddress The deployed SkulRegistry contract address (any version)
+ * @param options The issuer for v3 registries, the relayer for sponsored mints and the job tracker
  * @returns MintResult with transaction hash or error
  */
 export async function mintBadge(
   metadata: BadgeMetadata,
   provider: any,
-  contractAddress: `0x${string}`
+  contractAddress: `0x${string}`,
+  options: MintOptions = {}
+): Promise<MintResult> {
+  const tracker = options.tracker ?? getMintJobTracker()
+  const job = tracker.start({ id: metadata.credentialNumber, contractAddress, attemptId: options.attemptId })
+
+  const submitted = await submitMint(metadata, provider, contractAddress, options, () => {
+    tracker.update(job.id, { status: 'awaiting-signature' })
+  })
+  if (!submitted.success) {
+    tracker.update(job.id, { status: 'failed', error: submitted.error, errorCode: submitted.errorCode })
+    return submitted
+  }
+
+  tracker.update(job.id, {
+    status: 'submitted',
+    txHash: submitted.txHash as `0x${string}`,
+    sponsored: submitted.sponsored,
+    submittedAt: Date.now(),
+  })
+  return getMintResult(await tracker.watch(job.id))
+}
+
+/**
+ * Summarizes a mint job as the MintResult `mintBadge` returns
+ */
+export function getMintResult(job: MintJob): MintResult {
+  if (job.status === 'confirmed') {
+    return {
+      success: true,
+      txHash: job.txHash,
+      tokenId: job.tokenId,
+      sponsored: job.sponsored,
+    }
+  }
+  const { code, message } = getMintErrorInfo(job.errorCode ?? 'unknown', job.error)
+  return {
+    success: false,
+    error: message,
+    errorCode: code,
+  }
+}
+
+function mintFailure(code: MintErrorCode, detail?: string): MintResult {
+  const { message } = getMintErrorInfo(code, detail)
+  return {
+    success: false,
+    error: message,
+    errorCode: code,
+  }
+}
+
+/**
+ * Sends a registry call through the relayer. Its refusals are plain errors
+ * written for the user, so they are passed on as the failure's message.
+ */
+async function submitSponsoredMint(params: Parameters<typeof sendSponsored>[0]): Promise<MintResult> {
+  try {
+    return {
+      success: true,
+      txHash: await sendSponsored(params),
+      sponsored: true,
+    }
+  } catch (error) {
+    if (error instanceof BaseError) throw error
+    console.error('Sponsored mint failed:', error)
+    return mintFailure('sponsor-failed', (error as Error).message)
+  }
+}
+
+/**
+ * Sends the mint transaction, without waiting for it to be mined
+ * @param onAwaitingSignature Called just before the wallet is asked to sign
+ */
+async function submitMint(
+  metadata: BadgeMetadata,
+  provider: Parameters<typeof custom>[0],
+  contractAddress: `0x${string}`,
+  options: MintOptions,
+  onAwaitingSignature: () => void
 ): Promise<MintResult> {
   try {
     // Validate network before proceeding
@@ -176,93 +574,536 @@ export async function mintBadge(
       // Try to switch to correct network
       const switched = await ensureSoneiumNetwork(provider)
       if (!switched) {
-        return {
-          success: false,
-          error: `Please switch to Soneium Minato Testnet (Chain ID: ${SONEIUM_MINATO.id}). You can switch networks in your wallet.`,
-        }
+        return mintFailure('wrong-network')
       }
     }
 
     // Create wallet client from provider
     const walletClient = createWalletClient({
-      chain: SONEIUM_MINATO,
+      chain: getActiveChain().chain,
       transport: custom(provider),
     })
 
     // Create public client for reading
-    const publicClient = createPublicClient({
-      chain: SONEIUM_MINATO,
-      transport: http(SONEIUM_MINATO.rpcUrls.default.http[0]),
-    })
+    const publicClient = createReadClient()
 
     // Get the account from the wallet
     const [account] = await walletClient.getAddresses()
     if (!account) {
-      return {
-        success: false,
-        error: 'No wallet account found. Please connect your wallet.',
-      }
+      return mintFailure('no-wallet')
     }
 
-    // Prepare the transaction
-    const { request } = await publicClient.simulateContract({
-      account,
-      address: contractAddress,
-      abi: SKUL_REGISTRY_ABI,
-      functionName: 'issueCredential',
-      args: [BigInt(metadata.fid), metadata.category],
-    })
+    // Without a deployment (e.g. the zero-address placeholder) the call would go through as a plain transaction
+    const bytecode = await publicClient.getCode({ address: contractAddress })
+    if (!bytecode) {
+      return mintFailure('registry-not-configured')
+    }
 
-    // Send the transaction
-    const txHash = await walletClient.writeContract(request)
+    let txHash: `0x${string}`
+    const registryVersion = await getRegistryVersion(contractAddress, publicClient)
 
-    // Wait for transaction confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({
-      hash: txHash,
-    })
+    // Sponsored when a relayer is configured and the registry trusts the chain's forwarder
+    const relayer = options.relayer === undefined ? getRelayer() : options.relayer
+    const { forwarderAddress } = getActiveChain()
+    const sponsor = relayer && forwarderAddress && registryVersion !== 1 &&
+      await isSponsorable(publicClient, contractAddress, forwarderAddress)
+      ? { relayer, walletClient, publicClient, account, forwarderAddress, to: contractAddress }
+      : null
+    if (registryVersion === 3) {
+      if (metadata.answer === undefined) {
+        return mintFailure('invalid-credential', 'This registry only accepts attested challenge answers.')
+      }
 
-    if (receipt.status === 'success') {
-      return {
-        success: true,
-        txHash: txHash,
+      // The issuer re-scores the answer and signs the credential it will accept
+      let attestation: Attestation
+      try {
+        attestation = await (options.issuer ?? getIssuer(contractAddress, getActiveChain().chain.id)).attest({
+          user: account,
+          fid: metadata.fid,
+          challengeId: metadata.challengeId,
+          answer: metadata.answer,
+          timestamp: metadata.timestamp,
+          gradeToken: metadata.gradeToken,
+        })
+      } catch (error) {
+        console.error('Attestation failed:', error)
+        return mintFailure('attestation-failed', (error as Error).message)
       }
-    } else {
-      return {
-        success: false,
-        error: 'Transaction failed',
+      if (attestation.credentialHash.toLowerCase() !== metadata.credentialNumber.toLowerCase()) {
+        return mintFailure('attestation-failed', 'The issuer attested a different credential number. Please try again.')
       }
-    }
-  } catch (error: any) {
-    console.error('Failed to mint badge:', error)
-    
-    // Provide user-friendly error messages
-    let errorMessage = 'Unknown error occurred'
-    if (error?.message) {
-      if (error.message.includes('User rejected') || error.message.includes('user rejected')) {
-        errorMessage = 'Transaction was cancelled'
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient funds for transaction'
-      } else if (error.message.includes('network') || error.message.includes('Network')) {
-        errorMessage = 'Network error. Please check your connection and ensure you are on Soneium Minato Testnet.'
+
+      const call = {
+        abi: SKUL_ATTESTED_REGISTRY_ABI,
+        functionName: 'issueCredential',
+        args: [
+          BigInt(attestation.fid),
+          attestation.skill,
+          attestation.challengeId,
+          attestation.score,
+          attestation.credentialHash,
+          BigInt(attestation.nonce),
+          BigInt(attestation.expiry),
+          attestation.signature,
+        ],
+      } as const
+
+      if (sponsor) {
+        onAwaitingSignature()
+        return submitSponsoredMint({ ...sponsor, data: encodeFunctionData(call) })
       } else {
-        errorMessage = error.message
+        // Prepare and send the transaction
+        const { request } = await publicClient.simulateContract({ account, address: contractAddress, ...call })
+        onAwaitingSignature()
+        txHash = await walletClient.writeContract(request)
+      }
+    } else if (registryVersion === 2) {
+      if (!isCredentialHash(metadata.credentialNumber)) {
+        return mintFailure('invalid-credential', 'Credential number must be a 32-byte hash to mint on this registry.')
       }
+
+      const call = {
+        abi: SKUL_REGISTRY_V2_ABI,
+        functionName: 'issueCredential',
+        args: [
+          BigInt(metadata.fid),
+          metadata.category,
+          metadata.challengeId,
+          metadata.score ?? 0,
+          metadata.credentialNumber,
+        ],
+      } as const
+
+      if (sponsor) {
+        onAwaitingSignature()
+        return submitSponsoredMint({ ...sponsor, data: encodeFunctionData(call) })
+      } else {
+        // Prepare and send the transaction
+        const { request } = await publicClient.simulateContract({ account, address: contractAddress, ...call })
+        onAwaitingSignature()
+        txHash = await walletClient.writeContract(request)
+      }
+    } else {
+      // Prepare the transaction. The v1 registry doesn't take the credential number,
+      // so it rides along as calldata suffix where verifyCredential can find it.
+      const { request } = await publicClient.simulateContract({
+        account,
+        address: contractAddress,
+        abi: SKUL_REGISTRY_ABI,
+        functionName: 'issueCredential',
+        args: [BigInt(metadata.fid), metadata.category],
+        dataSuffix: isCredentialHash(metadata.credentialNumber) ? metadata.credentialNumber : undefined,
+      })
+
+      // Send the transaction
+      onAwaitingSignature()
+      txHash = await walletClient.writeContract(request)
     }
 
+    return {
+      success: true,
+      txHash,
+      sponsored: !!sponsor,
+    }
+  } catch (error) {
+    console.error('Failed to mint badge:', error)
+    const { code, message } = classifyMintError(error)
     return {
       success: false,
-      error: errorMessage,
+      error: message,
+      errorCode: code,
+    }
+  }
+}
+
+/**
+ * Reads every credential a wallet holds from the SkulRegistry contract.
+ * The count is read first, then all `getCredential` calls are batched into
+ * a single Multicall3 request so large collections load in one round trip.
+ * @param user The wallet address to query
+ * @param contractAddress The deployed SkulRegistry contract address (v1 or v2)
+ * @param publicClient Defaults to a client for the active chain
+ * @returns The user's credentials in issuance order
+ */
+export async function getCredentials(
+  user: `0x${string}`,
+  contractAddress: `0x${string}`,
+  publicClient: PublicClient = createReadClient()
+): Promise<OnchainCredential[]> {
+  const count = await publicClient.readContract({
+    address: contractAddress,
+    abi: SKUL_REGISTRY_ABI,
+    functionName: 'getCredentialCount',
+    args: [user],
+  })
+
+  if (count === 0n) {
+    return []
+  }
+
+  // Local chains have no Multicall3 deployed, so batch through a deployless call there
+  const deployless = !publicClient.chain?.contracts?.multicall3
+
+  // v2, SkulBadge and attested registries share the same read interface
+  if (await getRegistryVersion(contractAddress, publicClient) !== 1) {
+    const credentials = await publicClient.multicall({
+      contracts: Array.from({ length: Number(count) }, (_, index) => ({
+        address: contractAddress,
+        abi: SKUL_REGISTRY_V2_ABI,
+        functionName: 'getCredential' as const,
+        args: [user, BigInt(index)] as const,
+      })),
+      allowFailure: false,
+      deployless,
+    })
+
+    return credentials.map((credential, index) => ({
+      index,
+      fid: Number(credential.fid),
+      skillName: credential.skillName,
+      completedAt: Number(credential.completedAt),
+      challengeId: credential.challengeId,
+      score: credential.score,
+      credentialHash: credential.credentialHash,
+    }))
+  }
+
+  const credentials = await publicClient.multicall({
+    contracts: Array.from({ length: Number(count) }, (_, index) => ({
+      address: contractAddress,
+      abi: SKUL_REGISTRY_ABI,
+      functionName: 'getCredential' as const,
+      args: [user, BigInt(index)] as const,
+    })),
+    allowFailure: false,
+    deployless,
+  })
+
+  return credentials.map((credential, index) => ({
+    index,
+    fid: Number(credential.fid),
+    skillName: credential.skillName,
+    completedAt: Number(credential.completedAt),
+  }))
+}
+
+/**
+ * A CredentialIssued log: which transaction issued which credential
+ */
+export interface CredentialTransaction {
+  txHash: `0x${string}`
+  fid: number
+  skillName: string
+  timestamp: number // unix seconds
+  credentialHash?: `0x${string}` // only recorded by v2 registries
+}
+
+/**
+ * Reads the transactions that issued a wallet's credentials from its
+ * CredentialIssued logs. The logs may not cover every credential (the query
+ * starts at `fromBlock`, and some RPCs return partial ranges), so pair them
+ * with credentials using withCredentialTransactions, never by position.
+ * @param fromBlock The registry's deployment block, to keep the log query small
+ */
+export async function getCredentialTransactions(
+  user: `0x${string}`,
+  contractAddress: `0x${string}`,
+  fromBlock = 0,
+  publicClient: PublicClient = createReadClient()
+): Promise<CredentialTransaction[]> {
+  const version = await getRegistryVersion(contractAddress, publicClient)
+  const logs = await publicClient.getLogs({
+    address: contractAddress,
+    event: version === 1 ? CREDENTIAL_ISSUED_V1_EVENT : CREDENTIAL_ISSUED_V2_EVENT,
+    args: { user },
+    fromBlock: BigInt(fromBlock),
+    toBlock: 'latest',
+  })
+  return logs.flatMap(log => (log.transactionHash
+    ? [{
+        txHash: log.transactionHash,
+        fid: Number(log.args.fid),
+        skillName: log.args.skillName ?? '',
+        timestamp: Number(log.args.timestamp),
+        credentialHash: 'credentialHash' in log.args ? log.args.credentialHash : undefined,
+      }]
+    : []))
+}
+
+/**
+ * Sets each credential's issuing transaction: the log with its credential
+ * hash, or for v1 credentials, which have none, the only log with its FID,
+ * skill and timestamp. A credential without exactly one such log gets no
+ * transaction rather than a guess.
+ */
+export function withCredentialTransactions(
+  credentials: OnchainCredential[],
+  transactions: CredentialTransaction[]
+): OnchainCredential[] {
+  return credentials.map((credential) => {
+    const matches = credential.credentialHash
+      ? transactions.filter(transaction => transaction.credentialHash?.toLowerCase() === credential.credentialHash!.toLowerCase())
+      : transactions.filter(transaction =>
+          !transaction.credentialHash &&
+          transaction.timestamp === credential.completedAt &&
+          transaction.fid === credential.fid &&
+          transaction.skillName === credential.skillName)
+    return matches.length === 1 ? { ...credential, txHash: matches[0].txHash } : credential
+  })
+}
+
+/**
+ * Reads and decodes the onchain metadata of a SkulBadge token
+ * @param contractAddress The deployed SkulBadge contract address
+ * @param tokenId The badge token id, as returned in MintResult
+ */
+export async function getBadgeMetadata(
+  contractAddress: `0x${string}`,
+  tokenId: string
+): Promise<BadgeTokenMetadata> {
+  const tokenUri = await createReadClient().readContract({
+    address: contractAddress,
+    abi: SKUL_BADGE_ABI,
+    functionName: 'tokenURI',
+    args: [BigInt(tokenId)],
+  })
+
+  const prefix = 'data:application/json;base64,'
+  if (!tokenUri.startsWith(prefix)) {
+    throw new Error(`Unexpected tokenURI format for badge #${tokenId}`)
+  }
+
+  const json = new TextDecoder().decode(Uint8Array.from(atob(tokenUri.slice(prefix.length)), char => char.charCodeAt(0)))
+  return JSON.parse(json) as BadgeTokenMetadata
+}
+
+/**
+ * Builds a block explorer link for a badge token on the active chain
+ * @returns null on chains without an explorer
+ */
+export function getExplorerTokenUrl(contractAddress: string, tokenId: string): string | null {
+  return getExplorerUrl(`/token/${contractAddress}/instance/${tokenId}`)
+}
+
+/**
+ * Builds a block explorer link for an address on the active chain
+ * @returns null on chains without an explorer
+ */
+export function getExplorerAddressUrl(address: string): string | null {
+  return getExplorerUrl(`/address/${address}`)
+}
+
+/**
+ * Builds a block explorer link for a transaction on the active chain
+ * @returns null on chains without an explorer
+ */
+export function getExplorerTxUrl(txHash: string): string | null {
+  return getExplorerUrl(`/tx/${txHash}`)
+}
+
+function isCredentialHash(value: string): value is `0x${string}` {
+  return /^0x[0-9a-f]{64}$/i.test(value)
+}
+
+/**
+ * Normalizes an answer before hashing: Unicode NFC, trimmed, and every run of
+ * whitespace collapsed to a single space, so reformatting doesn't change the digest
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer.normalize('NFC').trim().replace(/\s+/g, ' ')
+}
+
+export function digestAnswer(answer: string): `0x${string}` {
+  return keccak256(stringToHex(normalizeAnswer(answer)))
+}
+
+/**
+ * Derives a credential number:
+ * keccak256(abi.encode(uint256 fid, address wallet, string challengeId, bytes32 answerDigest, uint256 timestamp))
+ */
+export function deriveCredentialNumber(input: CredentialInput): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters('uint256, address, string, bytes32, uint256'), [
+      BigInt(input.fid),
+      input.wallet,
+      input.challengeId,
+      input.answerDigest,
+      BigInt(input.timestamp),
+    ])
+  )
+}
+
+/**
+ * Builds the credential record for a passed answer, ready to be minted and stored
+ */
+export function createCredentialRecord(params: Omit<CredentialInput, 'answerDigest'> & { answer: string }): CredentialRecord {
+  const input: CredentialInput = {
+    fid: params.fid,
+    wallet: params.wallet,
+    challengeId: params.challengeId,
+    answerDigest: digestAnswer(params.answer),
+    timestamp: params.timestamp,
+  }
+  return { ...input, credentialNumber: deriveCredentialNumber(input) }
+}
+
+/**
+ * Checks a credential record: the number must recompute from its inputs and,
+ * when it has a tx hash, that transaction must have issued a credential with
+ * this number to the same wallet and FID. v2 registries record the number in
+ * the event; for v1 it is read back from the calldata suffix.
+ */
+export async function verifyCredential(
+  record: CredentialRecord,
+  contractAddress: `0x${string}`
+): Promise<CredentialVerification> {
+  const issues: string[] = []
+
+  const numberMatches = deriveCredentialNumber(record).toLowerCase() === record.credentialNumber.toLowerCase()
+  if (!numberMatches) {
+    issues.push('Credential number does not match its inputs')
+  }
+
+  if (!record.txHash) {
+    return { valid: false, numberMatches, onchain: 'unchecked', issues }
+  }
+
+  const publicClient = createReadClient()
+
+  const [transaction, receipt] = await Promise.all([
+    publicClient.getTransaction({ hash: record.txHash }),
+    publicClient.getTransactionReceipt({ hash: record.txHash }),
+  ])
+
+  const onchainIssues: string[] = []
+  // Sponsored mints reach the registry through the chain's forwarder
+  const { forwarderAddress } = getActiveChain()
+  const recipients = forwarderAddress ? [contractAddress, forwarderAddress] : [contractAddress]
+  if (!transaction.to || !recipients.some(address => isAddressEqual(address, transaction.to!))) {
+    onchainIssues.push('Transaction was not sent to the registry')
+  }
+
+  const issued = parseEventLogs({ abi: CREDENTIAL_ISSUED_EVENTS, logs: receipt.logs })
+    .filter(log => isAddressEqual(log.address, contractAddress))
+  const matching = issued.find(log =>
+    isAddressEqual(log.args.user, record.wallet) && log.args.fid === BigInt(record.fid)
+  )
+  if (receipt.status !== 'success' || !matching) {
+    onchainIssues.push('No matching CredentialIssued event for this wallet and FID')
+  } else if ('credentialHash' in matching.args) {
+    if (matching.args.credentialHash.toLowerCase() !== record.credentialNumber.toLowerCase()) {
+      onchainIssues.push('Registry recorded a different credential number')
+    }
+  } else if (!transaction.input.toLowerCase().endsWith(record.credentialNumber.slice(2).toLowerCase())) {
+    onchainIssues.push('Transaction does not carry this credential number')
+  }
+
+  issues.push(...onchainIssues)
+  const onchain = onchainIssues.length === 0 ? 'matched' : 'mismatched'
+  return { valid: numberMatches && onchain === 'matched', numberMatches, onchain, issues }
+}
+
+/**
+ * Reads the credentials a transaction issued from the registry's
+ * CredentialIssued events. For a v1 registry, which doesn't record credential
+ * numbers, the number is taken from the calldata suffix when the transaction
+ * was sent straight to the registry with one.
+ * @param publicClient Defaults to a client for the active chain
+ * @throws If the transaction doesn't exist or isn't mined yet
+ */
+export async function getIssuedCredentials(
+  txHash: `0x${string}`,
+  contractAddress: `0x${string}`,
+  publicClient: PublicClient = createReadClient()
+): Promise<IssuedCredential[]> {
+  let transaction, receipt
+  try {
+    [transaction, receipt] = await Promise.all([
+      publicClient.getTransaction({ hash: txHash }),
+      publicClient.getTransactionReceipt({ hash: txHash }),
+    ])
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError || error instanceof TransactionReceiptNotFoundError) {
+      throw new Error(`No mined transaction ${txHash} on ${publicClient.chain?.name ?? 'this chain'}`, { cause: error })
     }
+    throw error
+  }
+  if (receipt.status !== 'success') return []
+
+  const suffix = transaction.to && isAddressEqual(transaction.to, contractAddress)
+    ? getCredentialNumberSuffix(transaction.input)
+    : undefined
+
+  return parseEventLogs({ abi: CREDENTIAL_ISSUED_EVENTS, logs: receipt.logs })
+    .filter(log => isAddressEqual(log.address, contractAddress))
+    .map((log) => {
+      const issued: IssuedCredential = {
+        user: log.args.user,
+        fid: Number(log.args.fid),
+        skillName: log.args.skillName,
+        completedAt: Number(log.args.timestamp),
+        credentialHash: suffix,
+        txHash,
+      }
+      if ('credentialHash' in log.args) {
+        return {
+          ...issued,
+          challengeId: log.args.challengeId,
+          score: log.args.score,
+          credentialHash: log.args.credentialHash,
+        }
+      }
+      return issued
+    })
+}
+
+// The credential number appended to a v1 issueCredential call, if the calldata has exactly one
+function getCredentialNumberSuffix(input: `0x${string}`): `0x${string}` | undefined {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: SKUL_REGISTRY_ABI, data: input })
+    if (functionName !== 'issueCredential') return undefined
+
+    const encoded = encodeFunctionData({ abi: SKUL_REGISTRY_ABI, functionName, args })
+    if (input.length !== encoded.length + 64) return undefined
+    return `0x${input.slice(encoded.length)}`
+  } catch {
+    return undefined
   }
 }
 
 /**
- * Generates a unique credential number
+ * Checks a shared credential against the credentials the chain recorded: one
+ * of them must carry the claimed number and, if the claim includes its inputs,
+ * the number must derive from them and they must agree with the chain
  */
-export function generateCredentialNumber(): string {
-  const timestamp = Date.now()
-  const random = Math.floor(Math.random() * 10000)
-  return `${timestamp}-${random}-SKL`
+export function checkCredentialClaim(claim: CredentialClaim, issued: IssuedCredential[]): CredentialClaimCheck {
+  const issues: string[] = []
+  const { credentialNumber, input } = claim
+
+  if (input && deriveCredentialNumber(input).toLowerCase() !== credentialNumber.toLowerCase()) {
+    issues.push('Credential number does not match its inputs')
+  }
+
+  const match = issued.find(credential => credential.credentialHash?.toLowerCase() === credentialNumber.toLowerCase()) ?? null
+  if (!match) {
+    issues.push(issued.some(credential => credential.credentialHash)
+      ? 'No credential with this number was issued'
+      : 'The registry did not record credential numbers here, so this one cannot be checked')
+    return { match, issues }
+  }
+
+  if (input) {
+    if (match.fid !== input.fid) {
+      issues.push(`Issued to FID ${match.fid}, not FID ${input.fid}`)
+    }
+    if (!isAddressEqual(match.user, input.wallet)) {
+      issues.push(`Issued to ${match.user}, not ${input.wallet}`)
+    }
+    if (match.challengeId !== undefined && match.challengeId !== input.challengeId) {
+      issues.push(`Issued for challenge ${match.challengeId}, not ${input.challengeId}`)
+    }
+  }
+  return { match, issues }
 }
 
 /**
@@ -277,10 +1118,3 @@ export function validateBadgeMetadata(metadata: BadgeMetadata): boolean {
     metadata.timestamp
   )
 }
-
-/**
- * Gets the Soneium Minato network configuration
- */
-export function getSoneiumMinatoConfig() {
-  return SONEIUM_MINATO
-}
@@ -0,0 +1,133 @@
+/**
+ * Certificate Images
+ * Renders a credential as an SVG matching the in-app certificate card, for
+ * cast embeds and link previews. Pure string output with no DOM, so it
+ * renders the same in the browser and in Node.
+ */
+
+import type { CredentialClaimCheck, IssuedCredential } from './badge'
+
+/**
+ * How the credential relates to the claim it was shared with
+ */
+export type CertificateStatus =
+  | 'matched' // the shared claim matches the chain
+  | 'mismatched' // the shared claim doesn't match the chain
+  | 'issued' // no claim to check, only the chain data is shown
+
+export interface CertificateImage {
+  skillName: string
+  fid: number
+  wallet: `0x${string}`
+  credentialNumber?: `0x${string}` // absent for v1 credentials read from storage
+  issuedAt: number // unix seconds
+  challengeId?: string
+  score?: number
+  chainLabel: string
+  status: CertificateStatus
+}
+
+// 3:2, the aspect ratio Farcaster mini app embeds require
+export const CERTIFICATE_IMAGE_WIDTH = 1200
+export const CERTIFICATE_IMAGE_HEIGHT = 800
+
+const MAX_SKILL_NAME_LENGTH = 30
+
+const STATUS_STYLES: Record<CertificateStatus, { label: string; color: string }> = {
+  matched: { label: 'VERIFIED ONCHAIN', color: '#34d399' },
+  mismatched: { label: 'DOES NOT MATCH THE CHAIN', color: '#f87171' },
+  issued: { label: 'ISSUED ONCHAIN', color: '#a5b4fc' },
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value
+}
+
+/**
+ * Builds the image data for a credential read from the chain
+ * @param check The shared claim's check, if the credential was shared with one
+ */
+export function getCertificateImage(
+  credential: IssuedCredential,
+  check: CredentialClaimCheck | null,
+  chainLabel: string
+): CertificateImage {
+  let status: CertificateStatus = 'issued'
+  if (check) {
+    status = check.match === credential && check.issues.length === 0 ? 'matched' : 'mismatched'
+  }
+  return {
+    skillName: credential.skillName,
+    fid: credential.fid,
+    wallet: credential.user,
+    credentialNumber: credential.credentialHash,
+    issuedAt: credential.completedAt,
+    challengeId: credential.challengeId,
+    score: credential.score,
+    chainLabel,
+    status,
+  }
+}
+
+/**
+ * Renders a certificate as a standalone SVG document
+ */
+export function renderCertificateSvg(certificate: CertificateImage): string {
+  const { label: statusLabel, color: statusColor } = STATUS_STYLES[certificate.status]
+  // UTC, so the same credential renders the same image wherever it's rendered
+  const issuedOn = new Date(certificate.issuedAt * 1000).toISOString().slice(0, 10)
+  const details = [
+    certificate.challengeId,
+    certificate.score !== undefined ? `${certificate.score}/100` : undefined,
+    `Issued ${issuedOn}`,
+  ].filter(Boolean).join(' · ')
+  // A credential number doesn't fit on one line at this size, so it's split in half
+  const number = certificate.credentialNumber
+  const numberLines = number ? [`#${number.slice(0, 34)}`, number.slice(34)] : ['Recorded in the mint transaction']
+
+  // The server's rasterizer only finds its bundled mono font by name, not through `monospace`
+  const mono = ' font-family="ui-monospace, DejaVu Sans Mono, monospace"'
+  const text = (x: number, y: number, size: number, fill: string, content: string, extra = '') =>
+    `<text x="${x}" y="${y}" font-size="${size}" fill="${fill}"${extra}>${escapeXml(content)}</text>`
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CERTIFICATE_IMAGE_WIDTH}" height="${CERTIFICATE_IMAGE_HEIGHT}" viewBox="0 0 ${CERTIFICATE_IMAGE_WIDTH} ${CERTIFICATE_IMAGE_HEIGHT}" font-family="Inter, ui-sans-serif, system-ui, sans-serif">`,
+    '<defs>',
+    '<linearGradient id="card" x1="0" y1="0" x2="1" y2="1">',
+    '<stop offset="0" stop-color="#6366f1" stop-opacity="0.18"/>',
+    '<stop offset="1" stop-color="#a855f7" stop-opacity="0.18"/>',
+    '</linearGradient>',
+    '<linearGradient id="seal" x1="0" y1="0" x2="1" y2="1">',
+    '<stop offset="0" stop-color="#6366f1"/>',
+    '<stop offset="1" stop-color="#9333ea"/>',
+    '</linearGradient>',
+    '</defs>',
+    `<rect width="${CERTIFICATE_IMAGE_WIDTH}" height="${CERTIFICATE_IMAGE_HEIGHT}" fill="#0A0A0B"/>`,
+    '<rect x="60" y="60" width="1080" height="680" rx="48" fill="url(#card)" stroke="#ffffff" stroke-opacity="0.2" stroke-width="2"/>',
+    '<circle cx="1040" cy="150" r="40" fill="url(#seal)" stroke="#ffffff" stroke-opacity="0.2" stroke-width="2"/>',
+    text(1040, 164, 36, '#ffffff', 'S', ' text-anchor="middle" font-weight="800"'),
+    text(120, 160, 28, '#a1a1aa', 'DIGITAL CERTIFICATE', ' font-weight="700" letter-spacing="4"'),
+    text(120, 260, 72, '#ffffff', truncate(certificate.skillName, MAX_SKILL_NAME_LENGTH), ' font-weight="800"'),
+    text(120, 320, 30, '#a1a1aa', details),
+    text(120, 410, 24, '#a1a1aa', 'FARCASTER ID', ' letter-spacing="3"'),
+    text(120, 456, 44, '#ffffff', String(certificate.fid), ' font-weight="800"'),
+    text(480, 410, 24, '#a1a1aa', 'WALLET', ' letter-spacing="3"'),
+    text(480, 456, 32, '#d4d4d8', `${certificate.wallet.slice(0, 8)}…${certificate.wallet.slice(-6)}`, mono),
+    text(120, 540, 24, '#a1a1aa', 'CREDENTIAL NUMBER', ' letter-spacing="3"'),
+    ...numberLines.map((line, index) =>
+      text(120, 584 + index * 40, 30, '#d4d4d8', line, mono)
+    ),
+    text(120, 700, 24, statusColor, statusLabel, ' font-weight="800" letter-spacing="3"'),
+    text(1080, 700, 22, '#52525b', `SECURED BY ${certificate.chainLabel.toUpperCase()}`, ' text-anchor="end" font-weight="800" letter-spacing="6"'),
+    '</svg>',
+  ].join('')
+}
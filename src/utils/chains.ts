@@ -0,0 +1,215 @@
+/**
+ * Chain Registry
+ * The networks SKÜL can run on, each with its registry and forwarder
+ * addresses, RPC list and explorer. VITE_CHAIN selects the active one.
+ */
+
+import { fallback, http, type Chain } from 'viem'
+
+export type ChainKey = 'soneium' | 'minato' | 'hardhat'
+
+export interface ChainConfig {
+  key: ChainKey
+  chain: Chain
+  label: string // short name for UI copy, e.g. "Soneium Minato"
+  registryAddress: `0x${string}`
+  forwarderAddress?: `0x${string}` // SkulForwarder for sponsored mints, if deployed
+  rpcUrls: string[] // tried in order
+  explorerUrl?: string // local chains have no explorer
+  confirmations: number // blocks on top of a mint before it counts as final
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const DEFAULT_CONFIRMATIONS = 3
+const MULTICALL3 = {
+  address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+  blockCreated: 1,
+} as const
+
+// Soneium Mainnet Configuration
+export const SONEIUM = {
+  id: 1868,
+  name: 'Soneium',
+  network: 'soneium',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://rpc.soneium.org'],
+    },
+    public: {
+      http: ['https://rpc.soneium.org'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Blockscout',
+      url: 'https://soneium.blockscout.com',
+    },
+  },
+  contracts: {
+    multicall3: MULTICALL3,
+  },
+  testnet: false,
+} as const
+
+// Soneium Minato Testnet Configuration
+export const SONEIUM_MINATO = {
+  id: 1946,
+  name: 'Soneium Minato Testnet',
+  network: 'soneium-minato',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://rpc.minato.soneium.org'],
+    },
+    public: {
+      http: ['https://rpc.minato.soneium.org'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Blockscout',
+      url: 'https://soneium-minato.blockscout.com',
+    },
+  },
+  contracts: {
+    multicall3: MULTICALL3,
+  },
+  testnet: true,
+} as const
+
+// Local Hardhat node (`npx hardhat node`)
+export const HARDHAT_LOCAL = {
+  id: 31337,
+  name: 'Hardhat',
+  network: 'hardhat',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: ['http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+} as const
+
+/**
+ * Builds a chain's config. The addresses come from VITE_<KEY>_CONTRACT_ADDRESS
+ * and VITE_<KEY>_FORWARDER_ADDRESS, and `rpcUrl` (VITE_RPC_URL for the active
+ * chain) is tried before the chain's public RPCs.
+ */
+function createChainConfig(
+  key: ChainKey,
+  chain: Chain,
+  label: string,
+  registryAddress: string | undefined,
+  forwarderAddress: string | undefined,
+  rpcUrl?: string
+): ChainConfig {
+  const rpcUrls = [...new Set([...(rpcUrl ? [rpcUrl] : []), ...chain.rpcUrls.default.http])]
+
+  return {
+    key,
+    chain: { ...chain, rpcUrls: { ...chain.rpcUrls, default: { http: rpcUrls } } },
+    label,
+    registryAddress: (registryAddress || ZERO_ADDRESS) as `0x${string}`,
+    forwarderAddress: (forwarderAddress || undefined) as `0x${string}` | undefined,
+    rpcUrls,
+    explorerUrl: chain.blockExplorers?.default.url,
+    confirmations: getConfirmations(chain),
+  }
+}
+
+/**
+ * Returns how many blocks must be on top of a chain's block, counting itself,
+ * before it counts as final
+ */
+export function getConfirmations(chain: Chain): number {
+  // A Hardhat node only mines when it receives a transaction, so later blocks may never come
+  return chain.id === HARDHAT_LOCAL.id ? 1 : DEFAULT_CONFIRMATIONS
+}
+
+/**
+ * Returns every supported chain, keyed by VITE_CHAIN value
+ */
+export function getChains(): Record<ChainKey, ChainConfig> {
+  return {
+    soneium: createChainConfig(
+      'soneium',
+      SONEIUM,
+      'Soneium',
+      import.meta.env.VITE_SONEIUM_CONTRACT_ADDRESS,
+      import.meta.env.VITE_SONEIUM_FORWARDER_ADDRESS
+    ),
+    minato: createChainConfig(
+      'minato',
+      SONEIUM_MINATO,
+      'Soneium Minato',
+      import.meta.env.VITE_MINATO_CONTRACT_ADDRESS,
+      import.meta.env.VITE_MINATO_FORWARDER_ADDRESS
+    ),
+    hardhat: createChainConfig(
+      'hardhat',
+      HARDHAT_LOCAL,
+      'Hardhat',
+      import.meta.env.VITE_HARDHAT_CONTRACT_ADDRESS,
+      import.meta.env.VITE_HARDHAT_FORWARDER_ADDRESS
+    ),
+  }
+}
+
+let activeChain: ChainConfig | null = null
+
+/**
+ * Returns the chain selected by VITE_CHAIN (default: minato). VITE_RPC_URL and
+ * VITE_CONTRACT_ADDRESS, when set, override the active chain's first RPC and
+ * registry address.
+ * @throws if VITE_CHAIN names an unknown chain
+ */
+export function getActiveChain(): ChainConfig {
+  if (activeChain) return activeChain
+
+  const key = (import.meta.env.VITE_CHAIN || 'minato') as string
+  const chains = getChains()
+  if (!(key in chains)) {
+    throw new Error(`Unknown VITE_CHAIN "${key}". Expected one of ${Object.keys(chains).join(', ')}`)
+  }
+
+  const base = chains[key as ChainKey]
+  activeChain = createChainConfig(
+    base.key,
+    base.chain,
+    base.label,
+    import.meta.env.VITE_CONTRACT_ADDRESS || base.registryAddress,
+    base.forwarderAddress,
+    import.meta.env.VITE_RPC_URL
+  )
+  return activeChain
+}
+
+/**
+ * Creates a viem transport that tries each of the chain's default RPCs in order
+ */
+export function createChainTransport(chain: Chain = getActiveChain().chain) {
+  return fallback(chain.rpcUrls.default.http.map(url => http(url)))
+}
+
+/**
+ * Builds a block explorer link on the active chain
+ * @param path e.g. `/tx/0x...` or `/address/0x...`
+ * @returns null on chains without an explorer
+ */
+export function getExplorerUrl(path: string, config: ChainConfig = getActiveChain()): string | null {
+  return config.explorerUrl ? `${config.explorerUrl}${path}` : null
+}
@@ -1,7 +1,11 @@
 /**
  * Challenge Management Utilities
+ * Challenges come from JSON packs (see packs.ts) merged into a single registry
  */
 
+import { assertKnownScorers, type ScorerOverrides } from './validation'
+import type { ChallengePack } from './packs'
+
 export interface Challenge {
   id: string
   title: string
@@ -9,70 +13,82 @@ export interface Challenge {
   prompt: string
   placeholder: string
   instructions: string
+  scorer: string // type of a scorer registered in validation.ts
+  grader?: 'rules' | 'llm' // 'llm' opts in to the LLM grader when one is configured
   difficulty?: 'easy' | 'medium' | 'hard'
+  scorerConfig?: ScorerOverrides // pack rubric thresholds for this challenge's scorer
+  packId: string
+  locale: string
+}
+
+const challengeRegistry = new Map<string, Challenge>()
+const packRegistry = new Map<string, ChallengePack>()
+
+function compareVersions(a: string, b: string): number {
+  const [aParts, bParts] = [a.split('.').map(Number), b.split('.').map(Number)]
+  for (let i = 0; i < 3; i++) {
+    if (aParts[i] !== bParts[i]) return aParts[i] - bParts[i]
+  }
+  return 0
+}
+
+/**
+ * Merges a validated pack into the registry. A newer version of an already
+ * registered pack replaces it; an older or equal version is ignored.
+ * @throws if a challenge id is already registered by a different pack, or a
+ *         challenge references an unknown scorer
+ */
+export function registerChallengePack(pack: ChallengePack): void {
+  // Fail at load time if any challenge references a scorer that isn't registered
+  assertKnownScorers(pack.challenges)
+
+  const existing = packRegistry.get(pack.id)
+  if (existing && compareVersions(pack.version, existing.version) <= 0) {
+    return
+  }
+
+  const conflicts = pack.challenges.filter(challenge => {
+    const registered = challengeRegistry.get(challenge.id)
+    return registered && registered.packId !== pack.id
+  })
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Pack "${pack.id}" redefines challenges from other packs: ${conflicts.map(challenge => challenge.id).join(', ')}`
+    )
+  }
+
+  if (existing) {
+    for (const challenge of existing.challenges) {
+      challengeRegistry.delete(challenge.id)
+    }
+  }
+
+  packRegistry.set(pack.id, pack)
+  for (const challenge of pack.challenges) {
+    challengeRegistry.set(challenge.id, challenge)
+  }
 }
 
-export const CHALLENGES: Challenge[] = [
-  {
-    id: 'email-1',
-    title: 'Business English: Professional Emailing',
-    category: 'Business English',
-    prompt: "Hey, the report is late. Sorry, will send it by Friday maybe?",
-    placeholder: "Type your professional version here...",
-    instructions: "When you have a Business English professional emailing challenge, read the email prompt and rewrite it in a professional tone.",
-    difficulty: 'easy',
-  },
-  {
-    id: 'email-2',
-    title: 'Business English: Professional Emailing',
-    category: 'Business English',
-    prompt: "hey, can u send me that report? need it asap. thx",
-    placeholder: "Type your professional version here...",
-    instructions: "Rewrite this email in a more professional and courteous tone.",
-    difficulty: 'easy',
-  },
-  {
-    id: 'email-3',
-    title: 'Business English: Professional Emailing',
-    category: 'Business English',
-    prompt: "yo, that meeting was a waste of time. we should just cancel next week's too.",
-    placeholder: "Type your professional version here...",
-    instructions: "Transform this casual message into a professional email that addresses concerns diplomatically.",
-    difficulty: 'medium',
-  },
-  {
-    id: 'presentation-1',
-    title: 'Business Communication: Presentation Skills',
-    category: 'Business Communication',
-    prompt: "Create a brief introduction for a product launch presentation.",
-    placeholder: "Write your presentation introduction here...",
-    instructions: "Write a compelling 2-3 sentence introduction for a new product launch that engages the audience.",
-    difficulty: 'medium',
-  },
-  {
-    id: 'negotiation-1',
-    title: 'Business Communication: Negotiation',
-    category: 'Business Communication',
-    prompt: "Draft a response to a client who wants a 50% discount on your services.",
-    placeholder: "Write your professional response here...",
-    instructions: "Compose a diplomatic email that maintains your pricing while preserving the client relationship.",
-    difficulty: 'hard',
-  },
-]
+export function getChallengePacks(): ChallengePack[] {
+  return Array.from(packRegistry.values())
+}
+
+export function getChallenges(): Challenge[] {
+  return Array.from(challengeRegistry.values())
+}
 
 export function getChallengeById(id: string): Challenge | undefined {
-  return CHALLENGES.find(challenge => challenge.id === id)
+  return challengeRegistry.get(id)
 }
 
 export function getChallengesByCategory(category: string): Challenge[] {
-  return CHALLENGES.filter(challenge => challenge.category === category)
+  return getChallenges().filter(challenge => challenge.category === category)
 }
 
-export function getRandomChallenge(): Challenge {
-  return CHALLENGES[Math.floor(Math.random() * CHALLENGES.length)]
+export function getRandomChallenge(challenges: Challenge[] = getChallenges()): Challenge | undefined {
+  return challenges[Math.floor(Math.random() * challenges.length)]
 }
 
 export function getChallengesByDifficulty(difficulty: Challenge['difficulty']): Challenge[] {
-  return CHALLENGES.filter(challenge => challenge.difficulty === difficulty)
+  return getChallenges().filter(challenge => challenge.difficulty === difficulty)
 }
-
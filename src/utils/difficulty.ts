@@ -0,0 +1,151 @@
+/**
+ * Adaptive Difficulty
+ * Picks the next challenge from the learner's recent scores in each category
+ */
+
+import type { AttemptRecord } from './attempts'
+import type { Challenge } from './challenges'
+
+export type Difficulty = NonNullable<Challenge['difficulty']>
+
+export interface CategoryLevel {
+  category: string
+  level: Difficulty
+  recentScores: number[] // latest attempts at the learner's current level, oldest first
+  trend: 'new' | 'up' | 'down' | 'steady'
+}
+
+export interface ChallengeSelection {
+  challenge: Challenge
+  level: CategoryLevel
+  reason: string
+}
+
+const LEVELS: Difficulty[] = ['easy', 'medium', 'hard']
+const RECENT_WINDOW = 3 // attempts considered at the current level
+const MIN_ATTEMPTS_TO_MOVE = 2
+const PROMOTE_AVERAGE = 80
+const DEMOTE_AVERAGE = 50
+const REPEAT_COOLDOWN = 2 // most recent challenges skipped when another at the same level fits
+
+function difficultyOf(item: { difficulty?: Difficulty }): Difficulty {
+  return item.difficulty ?? 'medium'
+}
+
+function average(scores: number[]): number {
+  return Math.round(scores.reduce((total, score) => total + score, 0) / scores.length)
+}
+
+/**
+ * Works out the level a learner should practise a category at.
+ * Only the latest run of attempts at their current level counts, so one
+ * promotion doesn't immediately trigger the next.
+ */
+export function getCategoryLevel(category: string, attempts: AttemptRecord[]): CategoryLevel {
+  const history = attempts.filter(attempt => attempt.category === category)
+  if (history.length === 0) {
+    return { category, level: 'easy', recentScores: [], trend: 'new' }
+  }
+
+  const current = difficultyOf(history[history.length - 1])
+  const recent: AttemptRecord[] = []
+  for (let i = history.length - 1; i >= 0 && recent.length < RECENT_WINDOW; i--) {
+    if (difficultyOf(history[i]) !== current) break
+    recent.unshift(history[i])
+  }
+
+  const recentScores = recent.map(attempt => attempt.score)
+  const index = LEVELS.indexOf(current)
+  if (recentScores.length >= MIN_ATTEMPTS_TO_MOVE) {
+    const recentAverage = average(recentScores)
+    if (recentAverage >= PROMOTE_AVERAGE && index < LEVELS.length - 1) {
+      return { category, level: LEVELS[index + 1], recentScores, trend: 'up' }
+    }
+    if (recentAverage < DEMOTE_AVERAGE && index > 0) {
+      return { category, level: LEVELS[index - 1], recentScores, trend: 'down' }
+    }
+  }
+
+  return { category, level: current, recentScores, trend: 'steady' }
+}
+
+// Last time each category was practised; categories never attempted come first
+function leastRecentlyPractised(categories: string[], attempts: AttemptRecord[]): string {
+  const lastPractised = new Map<string, number>()
+  for (const attempt of attempts) {
+    lastPractised.set(attempt.category, Math.max(lastPractised.get(attempt.category) ?? 0, attempt.completedAt))
+  }
+  return [...categories].sort((a, b) => (lastPractised.get(a) ?? -1) - (lastPractised.get(b) ?? -1))[0]
+}
+
+function explain(level: CategoryLevel, chosen: Difficulty, repeat: 'repeated' | 'skipped' | null): string {
+  const recentAverage = level.recentScores.length > 0 ? average(level.recentScores) : 0
+  const attemptsLabel = `${level.recentScores.length} ${level.recentScores.length === 1 ? 'attempt' : 'attempts'}`
+  const previous = LEVELS[LEVELS.indexOf(level.level) + (level.trend === 'up' ? -1 : 1)]
+
+  const sentences = [
+    level.trend === 'new'
+      ? `This is your first ${level.category} challenge, so we're starting you at ${level.level}.`
+      : level.trend === 'up'
+        ? `You averaged ${recentAverage} over your last ${attemptsLabel} at ${previous} in ${level.category}, so we're moving you up to ${level.level}.`
+        : level.trend === 'down'
+          ? `You averaged ${recentAverage} over your last ${attemptsLabel} at ${previous} in ${level.category}, so we're easing you back to ${level.level}.`
+          : `You're averaging ${recentAverage} at ${level.level} in ${level.category}, so we're keeping you there.`,
+  ]
+
+  if (chosen !== level.level) {
+    sentences.push(`There's no ${level.level} challenge available yet, so here's the closest one at ${chosen}.`)
+  }
+  if (repeat === 'skipped') {
+    sentences.push('We skipped the challenges you just tried.')
+  } else if (repeat === 'repeated') {
+    sentences.push("You've seen this one recently, but it's the best match for your level.")
+  }
+
+  return sentences.join(' ')
+}
+
+/**
+ * Chooses the next challenge: the least recently practised category, at the
+ * level the learner's recent scores there call for, avoiding a repeat of
+ * what they just saw when another challenge at that level fits.
+ * @param challenges The challenges the learner may attempt (already filtered for locks)
+ * @param attempts The learner's attempt history, oldest first
+ * @param currentChallengeId The challenge on screen, treated like a recent attempt
+ */
+export function selectNextChallenge(
+  challenges: Challenge[],
+  attempts: AttemptRecord[],
+  currentChallengeId?: string
+): ChallengeSelection | undefined {
+  if (challenges.length === 0) return undefined
+
+  const category = leastRecentlyPractised(Array.from(new Set(challenges.map(challenge => challenge.category))), attempts)
+  const level = getCategoryLevel(category, attempts)
+
+  const recentIds = new Set(attempts.slice(-REPEAT_COOLDOWN).map(attempt => attempt.challengeId))
+  if (currentChallengeId) recentIds.add(currentChallengeId)
+
+  const inCategory = challenges.filter(challenge => challenge.category === category)
+
+  // Closest difficulty to the target level, preferring the easier one on a tie
+  const target = LEVELS.indexOf(level.level)
+  const distance = (challenge: Challenge) => {
+    const offset = LEVELS.indexOf(difficultyOf(challenge)) - target
+    return Math.abs(offset) * 2 + (offset > 0 ? 1 : 0)
+  }
+  const closest = Math.min(...inCategory.map(distance))
+  const matches = inCategory.filter(challenge => distance(challenge) === closest)
+
+  // Level comes first; among equally good matches skip the ones just seen
+  const fresh = matches.filter(challenge => !recentIds.has(challenge.id))
+  const candidates = fresh.length > 0 ? fresh : matches
+  const challenge = candidates[Math.floor(Math.random() * candidates.length)]
+  const repeat = recentIds.has(challenge.id) ? 'repeated' : fresh.length < matches.length ? 'skipped' : null
+
+  return {
+    challenge,
+    level,
+    reason: explain(level, difficultyOf(challenge), repeat),
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Email Structure Parser
+ * Splits a Business English email answer into salutation, body paragraphs,
+ * closing and signature so scorers can check structure instead of keywords
+ */
+
+export interface ParsedEmail {
+  salutation: string | null
+  body: string[]
+  closing: string | null
+  signature: string | null
+  /** A closing phrase that appears before the end of the email (e.g. followed by more body text) */
+  misplacedClosing: string | null
+}
+
+const GREETING = '(?:dear|hello|hi|hey|greetings|good\\s+(?:morning|afternoon|evening))'
+
+// Greeting plus up to five recipient words ("Dear Ms. Lee,"), ending in punctuation or a line break
+const SALUTATION_PATTERN = new RegExp(
+  `^\\s*(${GREETING}(?:\\s+(?:(?:mr|mrs|ms|dr|prof)\\.|[^\\s,:!.?]+)){0,5}?\\s*(?:[,:!]|(?=\\n)))`,
+  'i'
+)
+const BARE_GREETING_PATTERN = new RegExp(`^\\s*(${GREETING})\\b`, 'i')
+
+const CLOSING_PHRASES = [
+  'yours sincerely', 'yours faithfully', 'yours truly', 'kind regards', 'best regards',
+  'warm regards', 'warmest regards', 'many thanks', 'best wishes', 'with appreciation',
+  'thank you', 'sincerely', 'regards', 'respectfully', 'cheers', 'thanks', 'best',
+]
+
+// A closing starts a line or follows sentence punctuation and ends with a comma, line break or end of text
+const CLOSING_PATTERN = new RegExp(
+  `(?<=^|[.!?]\\s+|\\n\\s*)(${CLOSING_PHRASES.join('|')})\\s*(?:[,!.]|\\n|$)`,
+  'gi'
+)
+
+// A signature is a short name: up to four capitalized words, no sentence punctuation
+const SIGNATURE_PATTERN = /^[A-Z][\w'’-]*(?:\s+[A-Z][\w'’.-]*){0,3}$/
+
+const MAX_SIGNATURE_WORDS = 4
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n|\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+}
+
+/**
+ * Parses an email answer into its sections. Works for multi-line emails and
+ * for single-line answers typed without line breaks ("Dear Sam, ... Regards, Priya").
+ */
+export function parseEmail(text: string): ParsedEmail {
+  let remaining = text.trim()
+
+  // Salutation
+  let salutation: string | null = null
+  const salutationMatch = remaining.match(SALUTATION_PATTERN) ?? remaining.match(BARE_GREETING_PATTERN)
+  if (salutationMatch) {
+    salutation = salutationMatch[1].trim()
+    remaining = remaining.slice(salutationMatch[0].length).trim()
+  }
+
+  // Closing: the last closing phrase at a sentence or line boundary
+  let closing: string | null = null
+  let signature: string | null = null
+  let misplacedClosing: string | null = null
+
+  const closingMatches = Array.from(remaining.matchAll(CLOSING_PATTERN))
+  const lastClosing = closingMatches[closingMatches.length - 1]
+
+  if (lastClosing && lastClosing.index !== undefined) {
+    const phraseStart = lastClosing.index
+    const phraseEnd = lastClosing.index + lastClosing[0].length
+    const trailing = remaining.slice(phraseEnd).trim()
+    const trailingWords = trailing.split(/\s+/).filter(Boolean)
+
+    if (trailing.length === 0 || (trailingWords.length <= MAX_SIGNATURE_WORDS && SIGNATURE_PATTERN.test(trailing))) {
+      closing = remaining.slice(phraseStart, phraseEnd).trim()
+      signature = trailing.length > 0 ? trailing : null
+      remaining = remaining.slice(0, phraseStart).trim()
+    } else {
+      misplacedClosing = lastClosing[1]
+    }
+  }
+
+  return {
+    salutation,
+    body: splitParagraphs(remaining),
+    closing,
+    signature,
+    misplacedClosing,
+  }
+}
+
+/**
+ * True when the salutation addresses someone ("Dear Ms. Lee," / "Hello team,")
+ * and is punctuated, rather than a bare "hey"
+ */
+export function isWellFormedSalutation(salutation: string): boolean {
+  const words = salutation.replace(/[,:!]$/, '').trim().split(/\s+/)
+  const isGoodTimeOfDay = /^good$/i.test(words[0])
+  const recipientWords = isGoodTimeOfDay ? words.slice(2) : words.slice(1)
+  const addressesSomeone = isGoodTimeOfDay || recipientWords.length > 0
+  return /[,:!]$/.test(salutation) && addressesSomeone && !/^(hey|hi)$/i.test(words[0])
+}
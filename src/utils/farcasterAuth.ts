@@ -0,0 +1,289 @@
+/**
+ * Farcaster Sign In
+ * Proves which FID the user controls with Sign In With Farcaster instead of
+ * trusting the unauthenticated mini app context, and checks whether the
+ * minting wallet belongs to that FID
+ */
+
+import sdk from '@farcaster/miniapp-sdk'
+import {
+  bytesToHex,
+  createPublicClient,
+  fallback,
+  http,
+  isAddressEqual,
+  verifyTypedData,
+  type Hex,
+} from 'viem'
+import { optimism } from 'viem/chains'
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe'
+import { createChainTransport } from './chains'
+
+export interface FarcasterSignIn {
+  message: string // the SIWE message the Farcaster client signed
+  signature: Hex
+  nonce: string // the nonce we generated for it
+}
+
+export interface FarcasterIdentity {
+  fid: number
+  custodyAddress: `0x${string}`
+  verifiedAddresses: `0x${string}`[] // Ethereum addresses with a valid verification claim for the FID
+  signIn: FarcasterSignIn
+}
+
+export type FidVerificationStatus = 'verified' | 'unverified'
+
+export interface FidVerification {
+  status: FidVerificationStatus
+  reason?: string // why the FID is unverified, shown to the user
+}
+
+// Farcaster's IdRegistry on OP Mainnet, which records each FID's custody address
+export const ID_REGISTRY_ADDRESS = '0x00000000Fc6c5F01Fc30151999387Bb99A9f489b'
+
+const ID_REGISTRY_ABI = [
+  {
+    inputs: [{ internalType: 'uint256', name: 'fid', type: 'uint256' }],
+    name: 'custodyOf',
+    outputs: [{ internalType: 'address', name: 'custody', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+// The EIP-712 claim an address signs to be verified for an FID
+const VERIFICATION_CLAIM_DOMAIN = {
+  name: 'Farcaster Verify Ethereum Address',
+  version: '2.0.0',
+  salt: '0xf2d857f4a3edcb9b78b4d503bfe733db1e3f6cdc2b7971ee739626c97e86a558',
+} as const
+
+const VERIFICATION_CLAIM_TYPES = {
+  VerificationClaim: [
+    { name: 'fid', type: 'uint256' },
+    { name: 'address', type: 'address' },
+    { name: 'blockHash', type: 'bytes32' },
+    { name: 'network', type: 'uint8' },
+  ],
+} as const
+
+const FARCASTER_NETWORKS: Record<string, number> = {
+  FARCASTER_NETWORK_MAINNET: 1,
+  FARCASTER_NETWORK_TESTNET: 2,
+  FARCASTER_NETWORK_DEVNET: 3,
+}
+
+const SIGN_IN_STORAGE_KEY = 'skul:farcaster-sign-in'
+const SIGN_IN_TTL_MS = 24 * 60 * 60 * 1000
+const FID_RESOURCE_PREFIX = 'farcaster://fid/'
+
+interface HubVerificationMessage {
+  data?: {
+    fid?: number
+    network?: string
+    verificationAddAddressBody?: HubVerificationBody
+    verificationAddEthAddressBody?: HubVerificationBody // the field's name on older hubs
+  }
+}
+
+interface HubVerificationBody {
+  address?: string
+  claimSignature?: string
+  ethSignature?: string // the field's name on older hubs
+  blockHash?: string
+  protocol?: string
+  verificationType?: number // 1 for a contract wallet, whose claim is checked with ERC-1271
+}
+
+let optimismClient: ReturnType<typeof createOptimismClient> | null = null
+
+function createOptimismClient() {
+  const rpcUrl = import.meta.env.VITE_OPTIMISM_RPC_URL
+  return createPublicClient({
+    chain: optimism,
+    transport: rpcUrl ? fallback([http(rpcUrl), createChainTransport(optimism)]) : createChainTransport(optimism),
+  })
+}
+
+// Reads the IdRegistry and custody signatures, which live on OP Mainnet whatever chain SKÜL mints on
+function getOptimismClient() {
+  if (!optimismClient) optimismClient = createOptimismClient()
+  return optimismClient
+}
+
+// Hubs return bytes as hex or, in some fields, base64
+function toHex(value: string): Hex {
+  if (value.startsWith('0x')) return value as Hex
+  return bytesToHex(Uint8Array.from(atob(value), char => char.charCodeAt(0)))
+}
+
+/**
+ * Asks the Farcaster client to sign a Sign In With Farcaster message with the
+ * user's custody address
+ * @throws If the app isn't running in a Farcaster client or the user declines
+ */
+export async function signInWithFarcaster(): Promise<FarcasterSignIn> {
+  if (!(await sdk.isInMiniApp())) {
+    throw new Error('Open SKÜL in a Farcaster client to sign in with Farcaster.')
+  }
+
+  const nonce = generateSiweNonce()
+  const { message, signature } = await sdk.actions.signIn({
+    nonce,
+    expirationTime: new Date(Date.now() + SIGN_IN_TTL_MS).toISOString(),
+    // Auth addresses would have to be looked up in the KeyRegistry, so require the custody address
+    acceptAuthAddress: false,
+  })
+  return { message, signature: signature as Hex, nonce }
+}
+
+/**
+ * Returns the Ethereum addresses verified for an FID, as listed by a Farcaster
+ * hub. Each address's claim signature is checked here, so the hub only has to
+ * be trusted not to hide verifications. Contract wallet claims are skipped.
+ * @returns No addresses when VITE_FARCASTER_HUB_URL isn't set
+ */
+export async function getVerifiedAddresses(fid: number): Promise<`0x${string}`[]> {
+  const hubUrl = import.meta.env.VITE_FARCASTER_HUB_URL?.replace(/\/$/, '')
+  if (!hubUrl) return []
+
+  const response = await fetch(`${hubUrl}/v1/verificationsByFid?fid=${fid}`)
+  if (!response.ok) {
+    throw new Error(`Farcaster hub answered ${response.status}`)
+  }
+
+  const { messages = [] } = (await response.json()) as { messages?: HubVerificationMessage[] }
+  const addresses: `0x${string}`[] = []
+  for (const { data } of messages) {
+    const body = data?.verificationAddAddressBody ?? data?.verificationAddEthAddressBody
+    const claimSignature = body?.claimSignature ?? body?.ethSignature
+    const network = FARCASTER_NETWORKS[data?.network ?? '']
+    if (!body?.address?.startsWith('0x') || !claimSignature || !body.blockHash || !network) continue
+    if (body.protocol && body.protocol !== 'PROTOCOL_ETHEREUM') continue
+    if (body.verificationType) continue
+
+    try {
+      const address = body.address as `0x${string}`
+      const valid = await verifyTypedData({
+        address,
+        domain: VERIFICATION_CLAIM_DOMAIN,
+        types: VERIFICATION_CLAIM_TYPES,
+        primaryType: 'VerificationClaim',
+        message: { fid: BigInt(fid), address, blockHash: toHex(body.blockHash), network },
+        signature: toHex(claimSignature),
+      })
+      if (valid) addresses.push(address)
+    } catch (error) {
+      console.error('Skipping malformed Farcaster verification:', error)
+    }
+  }
+  return addresses
+}
+
+/**
+ * Verifies a Sign In With Farcaster message: it must be for this domain and
+ * our nonce, unexpired, name an FID, and be signed by that FID's custody
+ * address as recorded in the IdRegistry
+ * @param domain The host the message must be for, defaults to the current page's
+ * @throws With the reason if the message doesn't verify
+ */
+export async function verifyFarcasterSignIn(
+  signIn: FarcasterSignIn,
+  domain: string = window.location.host
+): Promise<FarcasterIdentity> {
+  const message = parseSiweMessage(signIn.message)
+  if (!message.address || !validateSiweMessage({ message, domain, nonce: signIn.nonce })) {
+    throw new Error('The Farcaster sign-in is for another app, or has expired.')
+  }
+
+  const resource = message.resources?.find(item => item.startsWith(FID_RESOURCE_PREFIX))
+  const fid = Number(resource?.slice(FID_RESOURCE_PREFIX.length))
+  if (!Number.isSafeInteger(fid) || fid <= 0) {
+    throw new Error("The Farcaster sign-in doesn't name an FID.")
+  }
+
+  const client = getOptimismClient()
+  const custodyAddress = await client.readContract({
+    address: ID_REGISTRY_ADDRESS,
+    abi: ID_REGISTRY_ABI,
+    functionName: 'custodyOf',
+    args: [BigInt(fid)],
+  })
+  if (!isAddressEqual(custodyAddress, message.address)) {
+    throw new Error(`The Farcaster sign-in wasn't signed by FID ${fid}'s custody address.`)
+  }
+
+  // Also accepts custody addresses that are contract wallets (ERC-1271)
+  const signed = await client.verifySiweMessage({
+    message: signIn.message,
+    signature: signIn.signature,
+    address: custodyAddress,
+    domain,
+    nonce: signIn.nonce,
+  })
+  if (!signed) {
+    throw new Error('The Farcaster sign-in signature is invalid.')
+  }
+
+  // Without the hub, only the custody address is known to belong to the FID
+  const verifiedAddresses = await getVerifiedAddresses(fid).catch((error) => {
+    console.error('Failed to load verified addresses:', error)
+    return []
+  })
+  return { fid, custodyAddress, verifiedAddresses, signIn }
+}
+
+/**
+ * Checks whether an FID counts as verified for a wallet: the user must have
+ * signed in as that FID, and the wallet must be its custody address or one of
+ * its verified addresses
+ */
+export function checkFidBinding(
+  identity: FarcasterIdentity | null,
+  fid: number | undefined,
+  wallet: `0x${string}` | undefined
+): FidVerification {
+  if (!fid) {
+    return { status: 'unverified', reason: 'Open SKÜL in a Farcaster client to link your FID.' }
+  }
+  if (!identity) {
+    return { status: 'unverified', reason: 'Sign in with Farcaster to verify this FID.' }
+  }
+  if (identity.fid !== fid) {
+    return { status: 'unverified', reason: `You signed in as FID ${identity.fid}, not FID ${fid}.` }
+  }
+  if (!wallet) {
+    return { status: 'unverified', reason: 'Connect a wallet to link it to this FID.' }
+  }
+
+  const linked = [identity.custodyAddress, ...identity.verifiedAddresses].some(address => isAddressEqual(address, wallet))
+  if (!linked) {
+    return { status: 'unverified', reason: `This wallet isn't FID ${fid}'s custody address or one of its verified addresses.` }
+  }
+  return { status: 'verified' }
+}
+
+/**
+ * Loads the last sign-in, which must be verified again before it is trusted
+ */
+export function loadFarcasterSignIn(): FarcasterSignIn | null {
+  try {
+    const raw = localStorage.getItem(SIGN_IN_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as FarcasterSignIn) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveFarcasterSignIn(signIn: FarcasterSignIn | null): void {
+  try {
+    if (signIn) {
+      localStorage.setItem(SIGN_IN_STORAGE_KEY, JSON.stringify(signIn))
+    } else {
+      localStorage.removeItem(SIGN_IN_STORAGE_KEY)
+    }
+  } catch (error) {
+    console.error('Failed to save Farcaster sign-in:', error)
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Answer Graders
+ * A provider interface over the rule-based scorers, an optional
+ * OpenAI-compatible LLM grader that falls back to the rules on failure,
+ * and the grading service that scores answers server-side
+ */
+
+import { resolveScorerConfig, scoreAnswer, type CriterionResult, type ScorerOverrides, type ValidationResult } from './validation'
+
+export interface GradeRequest {
+  scorer: string // registered scorer type, also supplies the pass threshold
+  prompt: string
+  instructions: string
+  answer: string
+  scorerConfig?: ScorerOverrides // thresholds from the challenge pack
+  challengeId?: string // the grading service looks the challenge up itself
+  fid?: number // rate-limit key for the grading service
+}
+
+export interface Grader {
+  name: string
+  grade(request: GradeRequest): Promise<ValidationResult>
+}
+
+export interface LlmGraderOptions {
+  baseUrl: string // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string
+  apiKey?: string
+  timeoutMs?: number
+  fallback?: Grader
+}
+
+export interface RemoteGraderOptions {
+  baseUrl: string // the grading service, e.g. http://localhost:8787
+  timeoutMs?: number
+  fallback?: Grader // used when the service can't be reached; leave unset in production
+}
+
+/**
+ * The grading service's `POST /grade` response
+ */
+export interface GradeResponse {
+  result: ValidationResult
+  gradeToken: string
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+const SYSTEM_PROMPT = `You are a strict Business English examiner. Grade the learner's answer to the task.
+Respond with JSON only, no prose, in exactly this shape:
+{"score": <integer 0-100>, "feedback": "<one or two sentences>", "rubric": [{"id": "<camelCase>", "label": "<criterion>", "earned": <integer>, "possible": <integer>, "matched": ["<phrases from the answer that earned points>"], "missing": ["<specific, actionable improvements>"]}]}
+The rubric "earned" values must add up to "score" and their "possible" values to 100.`
+
+/**
+ * Grades with the rule-based scorers registered in validation.ts
+ */
+export function createRuleBasedGrader(): Grader {
+  return {
+    name: 'rules',
+    async grade(request) {
+      return scoreAnswer(request.scorer, request.answer, request.prompt, request.scorerConfig)
+    },
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function parseCriterion(value: unknown): CriterionResult | null {
+  if (typeof value !== 'object' || value === null) return null
+  const criterion = value as Record<string, unknown>
+
+  if (typeof criterion.id !== 'string' || typeof criterion.label !== 'string') return null
+  if (typeof criterion.earned !== 'number' || typeof criterion.possible !== 'number') return null
+  if (criterion.earned < 0 || criterion.earned > criterion.possible) return null
+
+  return {
+    id: criterion.id,
+    label: criterion.label,
+    earned: Math.round(criterion.earned),
+    possible: Math.round(criterion.possible),
+    matched: isStringArray(criterion.matched) ? criterion.matched : [],
+    missing: isStringArray(criterion.missing) ? criterion.missing : [],
+  }
+}
+
+/**
+ * Parses a model reply into a ValidationResult
+ * @param content The assistant message content, optionally wrapped in a ```json fence
+ * @param passThreshold The score needed to pass
+ * @returns The result, or null if the reply is malformed
+ */
+export function parseLlmGrade(content: string, passThreshold: number): ValidationResult | null {
+  const json = content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return null
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) return null
+  const { score, feedback, rubric } = parsed as Record<string, unknown>
+
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) return null
+  if (typeof feedback !== 'string' || feedback.trim().length === 0) return null
+  if (!Array.isArray(rubric)) return null
+
+  const criteria = rubric.map(parseCriterion)
+  if (criteria.some(criterion => criterion === null)) return null
+
+  const roundedScore = Math.round(score)
+  return {
+    score: roundedScore,
+    passed: roundedScore >= passThreshold,
+    feedback: feedback.trim(),
+    rubric: criteria as CriterionResult[],
+  }
+}
+
+/**
+ * Creates a grader that calls an OpenAI-compatible `/chat/completions`
+ * endpoint. Timeouts, HTTP errors and malformed replies fall back to the
+ * rule-based grader so a flaky provider never blocks a learner.
+ */
+export function createLlmGrader(options: LlmGraderOptions): Grader {
+  const fallback = options.fallback ?? createRuleBasedGrader()
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    name: 'llm',
+    async grade(request) {
+      const { passThreshold } = resolveScorerConfig(request.scorer, request.scorerConfig)
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPT },
+              {
+                role: 'user',
+                content: `Task: ${request.instructions}\nPrompt: ${request.prompt}\nPass mark: ${passThreshold}\n\nLearner's answer:\n${request.answer}`,
+              },
+            ],
+          }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Grader responded with HTTP ${response.status}`)
+        }
+
+        const data = await response.json()
+        const content = data?.choices?.[0]?.message?.content
+        const result = typeof content === 'string' ? parseLlmGrade(content, passThreshold) : null
+        if (!result) {
+          throw new Error('Grader returned malformed output')
+        }
+
+        return result
+      } catch (error) {
+        console.error('LLM grading failed, falling back to rule-based scoring:', error)
+        return fallback.grade(request)
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+/**
+ * Creates a grader backed by the grading service's `POST /grade` endpoint.
+ * The service scores with the same scorers and returns a signed grade token
+ * alongside the result.
+ * @throws from `grade` if the service fails and no fallback is set
+ */
+export function createRemoteGrader(options: RemoteGraderOptions): Grader {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/grade`
+
+  return {
+    name: 'remote',
+    async grade(request) {
+      if (!request.challengeId) {
+        throw new Error('The grading service needs a challenge id')
+      }
+
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            fid: request.fid ?? 0,
+            challengeId: request.challengeId,
+            answer: request.answer,
+          }),
+        })
+
+        const data = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(data?.error || `Grading service responded with HTTP ${response.status}`)
+        }
+
+        const { result, gradeToken } = data as GradeResponse
+        return { ...result, gradeToken }
+      } catch (error) {
+        if (!options.fallback) throw error
+        console.error('Grading service failed, falling back to local scoring:', error)
+        return options.fallback.grade(request)
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+/**
+ * Returns the grader that runs in the browser: the LLM grader when the
+ * challenge opts in and VITE_LLM_GRADER_BASE_URL is configured, otherwise
+ * the rule-based one. The browser never sends an API key, since VITE_
+ * variables are bundled into the client: the URL must be a keyless endpoint,
+ * such as a proxy that adds the key or a local model server.
+ */
+export function getLocalGrader(kind: 'rules' | 'llm' = 'rules'): Grader {
+  const baseUrl = import.meta.env.VITE_LLM_GRADER_BASE_URL
+  if (kind === 'llm' && baseUrl) {
+    return createLlmGrader({
+      baseUrl,
+      model: import.meta.env.VITE_LLM_GRADER_MODEL || 'gpt-4o-mini',
+      timeoutMs: Number(import.meta.env.VITE_LLM_GRADER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    })
+  }
+  return createRuleBasedGrader()
+}
+
+/**
+ * Returns the grader for a challenge: the grading service when VITE_GRADER_URL
+ * is configured, otherwise local scoring. In development the service falls
+ * back to local scoring when it can't be reached.
+ */
+export function getGrader(kind: 'rules' | 'llm' = 'rules'): Grader {
+  const baseUrl = import.meta.env.VITE_GRADER_URL
+  if (baseUrl) {
+    return createRemoteGrader({
+      baseUrl,
+      fallback: import.meta.env.DEV ? getLocalGrader(kind) : undefined,
+    })
+  }
+  return getLocalGrader(kind)
+}
@@ -0,0 +1,239 @@
+/**
+ * CredentialIssued Event Indexer
+ * Backfills and tails SkulRegistry `CredentialIssued` logs (v1 and v2) into an incremental local store
+ */
+
+import { createPublicClient, http, type Chain } from 'viem'
+import { CREDENTIAL_ISSUED_EVENTS } from './badge'
+import { createChainTransport, getActiveChain, getConfirmations } from './chains'
+
+export interface IndexedCredential {
+  user: `0x${string}`
+  fid: number
+  skillName: string
+  timestamp: number // unix seconds (block timestamp)
+  blockNumber: number
+  transactionHash: `0x${string}`
+  logIndex: number
+  // Only emitted by v2 registries
+  challengeId?: string
+  score?: number
+  credentialHash?: `0x${string}`
+}
+
+export interface IndexerSnapshot {
+  chainId: number
+  contractAddress: `0x${string}`
+  lastIndexedBlock: number
+  credentials: IndexedCredential[]
+}
+
+/**
+ * Persistence backend for the indexer. Snapshots are saved after every
+ * processed block range so a restart resumes from `lastIndexedBlock + 1`.
+ */
+export interface IndexerStore {
+  load(): IndexerSnapshot | null
+  save(snapshot: IndexerSnapshot): void
+}
+
+export interface CredentialIndexerOptions {
+  contractAddress: `0x${string}`
+  store: IndexerStore
+  fromBlock?: number
+  chain?: Chain
+  rpcUrl?: string
+  batchSize?: number
+  pollingIntervalMs?: number
+  confirmations?: number // blocks a log's block needs, counting itself, before it is indexed; defaults to the chain's
+  onUpdate?: (credentials: IndexedCredential[]) => void
+  onError?: (error: unknown) => void
+}
+
+export interface CredentialIndexer {
+  start(): Promise<void>
+  stop(): void
+  getCredentials(): IndexedCredential[]
+}
+
+const DEFAULT_BATCH_SIZE = 5000
+const DEFAULT_POLLING_INTERVAL_MS = 4000
+
+/**
+ * Creates an indexer store backed by localStorage
+ * @param key The storage key, should be unique per chain and contract
+ */
+export function createLocalStorageStore(key: string): IndexerStore {
+  return {
+    load() {
+      try {
+        const raw = localStorage.getItem(key)
+        return raw ? (JSON.parse(raw) as IndexerSnapshot) : null
+      } catch (error) {
+        console.error('Failed to load indexer snapshot:', error)
+        return null
+      }
+    },
+    save(snapshot) {
+      try {
+        localStorage.setItem(key, JSON.stringify(snapshot))
+      } catch (error) {
+        console.error('Failed to save indexer snapshot:', error)
+      }
+    },
+  }
+}
+
+/**
+ * Creates an in-memory indexer store (useful for tests and scripts)
+ */
+export function createMemoryStore(initial: IndexerSnapshot | null = null): IndexerStore {
+  let snapshot = initial
+  return {
+    load: () => snapshot,
+    save: (next) => {
+      snapshot = next
+    },
+  }
+}
+
+/**
+ * Returns the configured start block for indexing, read from VITE_INDEXER_START_BLOCK
+ */
+export function getIndexerStartBlock(): number {
+  const configured = Number(import.meta.env.VITE_INDEXER_START_BLOCK)
+  return Number.isFinite(configured) && configured > 0 ? configured : 0
+}
+
+/**
+ * Creates an indexer for SkulRegistry `CredentialIssued` events.
+ * `start()` backfills from the stored cursor (or `fromBlock`) up to the last
+ * confirmed block, then keeps polling for new blocks until `stop()` is called.
+ * Blocks are only indexed once confirmed, since the cursor never goes back
+ * to drop logs a reorg removed.
+ */
+export function createCredentialIndexer(options: CredentialIndexerOptions): CredentialIndexer {
+  const chain = options.chain ?? getActiveChain().chain
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const pollingIntervalMs = options.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS
+  const confirmations = Math.max(1, options.confirmations ?? getConfirmations(chain))
+
+  const publicClient = createPublicClient({
+    chain,
+    transport: options.rpcUrl ? http(options.rpcUrl) : createChainTransport(chain),
+  })
+
+  const stored = options.store.load()
+  const isSameSource =
+    stored?.chainId === chain.id &&
+    stored.contractAddress.toLowerCase() === options.contractAddress.toLowerCase()
+
+  let snapshot: IndexerSnapshot = isSameSource
+    ? stored
+    : {
+        chainId: chain.id,
+        contractAddress: options.contractAddress,
+        lastIndexedBlock: (options.fromBlock ?? 0) - 1,
+        credentials: [],
+      }
+
+  let running = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const indexRange = async (fromBlock: number, toBlock: number) => {
+    const logs = await publicClient.getContractEvents({
+      address: options.contractAddress,
+      abi: CREDENTIAL_ISSUED_EVENTS,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    })
+
+    const seen = new Set(snapshot.credentials.map(c => `${c.transactionHash}:${c.logIndex}`))
+    const added: IndexedCredential[] = []
+
+    for (const log of logs) {
+      if (log.transactionHash === null || log.blockNumber === null || log.logIndex === null) continue
+      if (seen.has(`${log.transactionHash}:${log.logIndex}`)) continue
+
+      added.push({
+        user: log.args.user as `0x${string}`,
+        fid: Number(log.args.fid),
+        skillName: log.args.skillName ?? '',
+        timestamp: Number(log.args.timestamp),
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        ...('credentialHash' in log.args && {
+          challengeId: log.args.challengeId,
+          score: log.args.score,
+          credentialHash: log.args.credentialHash,
+        }),
+      })
+    }
+
+    snapshot = {
+      ...snapshot,
+      lastIndexedBlock: toBlock,
+      credentials: [...snapshot.credentials, ...added],
+    }
+    options.store.save(snapshot)
+
+    if (added.length > 0) {
+      options.onUpdate?.(snapshot.credentials)
+    }
+  }
+
+  const syncToHead = async () => {
+    // Uncached, since the indexer keeps its own polling interval
+    const head = Number(await publicClient.getBlockNumber({ cacheTime: 0 }))
+    const confirmed = head - (confirmations - 1)
+    let from = snapshot.lastIndexedBlock + 1
+
+    while (running && from <= confirmed) {
+      const to = Math.min(from + batchSize - 1, confirmed)
+      await indexRange(from, to)
+      from = to + 1
+    }
+  }
+
+  const poll = async () => {
+    if (!running) return
+    try {
+      await syncToHead()
+    } catch (error) {
+      options.onError?.(error)
+    }
+    if (running) {
+      timer = setTimeout(poll, pollingIntervalMs)
+    }
+  }
+
+  return {
+    async start() {
+      if (running) return
+      running = true
+      options.onUpdate?.(snapshot.credentials)
+
+      // Backfill first so callers can await a fully caught-up store
+      try {
+        await syncToHead()
+      } catch (error) {
+        options.onError?.(error)
+      }
+
+      if (running) {
+        timer = setTimeout(poll, pollingIntervalMs)
+      }
+    },
+    stop() {
+      running = false
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+    },
+    getCredentials() {
+      return snapshot.credentials
+    },
+  }
+}
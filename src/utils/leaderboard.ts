@@ -0,0 +1,65 @@
+/**
+ * Leaderboard Utilities
+ * Ranks Farcaster IDs by indexed credential count, overall and per skill category
+ */
+
+import type { IndexedCredential } from './indexer'
+
+export interface LeaderboardEntry {
+  rank: number
+  fid: number
+  credentialCount: number
+  lastIssuedAt: number
+}
+
+export interface Leaderboards {
+  overall: LeaderboardEntry[]
+  bySkill: Record<string, LeaderboardEntry[]>
+}
+
+/**
+ * Ranks FIDs by credential count. Ties are broken by whoever reached the
+ * count first (earliest latest-credential timestamp), then by FID.
+ */
+export function rankByFid(credentials: IndexedCredential[]): LeaderboardEntry[] {
+  const totals = new Map<number, { credentialCount: number; lastIssuedAt: number }>()
+
+  for (const credential of credentials) {
+    const current = totals.get(credential.fid) ?? { credentialCount: 0, lastIssuedAt: 0 }
+    totals.set(credential.fid, {
+      credentialCount: current.credentialCount + 1,
+      lastIssuedAt: Math.max(current.lastIssuedAt, credential.timestamp),
+    })
+  }
+
+  return Array.from(totals.entries())
+    .map(([fid, total]) => ({ fid, ...total }))
+    .sort((a, b) =>
+      b.credentialCount - a.credentialCount ||
+      a.lastIssuedAt - b.lastIssuedAt ||
+      a.fid - b.fid
+    )
+    .map((entry, index) => ({ rank: index + 1, ...entry }))
+}
+
+/**
+ * Builds the overall leaderboard plus one leaderboard per `skillName`
+ */
+export function buildLeaderboards(credentials: IndexedCredential[]): Leaderboards {
+  const bySkillName = new Map<string, IndexedCredential[]>()
+  for (const credential of credentials) {
+    const group = bySkillName.get(credential.skillName) ?? []
+    group.push(credential)
+    bySkillName.set(credential.skillName, group)
+  }
+
+  const bySkill: Record<string, LeaderboardEntry[]> = {}
+  for (const [skillName, group] of bySkillName) {
+    bySkill[skillName] = rankByFid(group)
+  }
+
+  return {
+    overall: rankByFid(credentials),
+    bySkill,
+  }
+}
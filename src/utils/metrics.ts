@@ -0,0 +1,219 @@
+/**
+ * Linguistic Metrics
+ * Offline readability and style measurements that scorers can weight in their rubrics
+ */
+
+import { tokenize } from './text'
+import type { CriterionResult } from './validation'
+
+export interface RepeatedWord {
+  word: string
+  count: number
+}
+
+export interface TextMetrics {
+  wordCount: number
+  sentenceCount: number
+  averageSentenceLength: number // words per sentence
+  syllablesPerWord: number
+  fleschKincaidGrade: number
+  passiveVoiceRatio: number // share of sentences containing a passive construction
+  repeatedWords: RepeatedWord[]
+  shoutingWords: string[]
+  excessivePunctuation: string[]
+}
+
+/**
+ * Per-metric rubric weights. Every entry is optional; a scorer only gets a
+ * criterion for the metrics its rubric config lists.
+ */
+export interface MetricWeights {
+  readability?: { points: number; minGrade: number; maxGrade: number }
+  sentenceLength?: { points: number; maxAverage: number }
+  passiveVoice?: { points: number; maxRatio: number }
+  repetition?: { points: number; penaltyPerWord: number }
+  shouting?: { points: number; penaltyPerWord: number }
+  punctuation?: { points: number; penaltyPerRun: number }
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'that', 'this', 'with', 'your', 'you', 'our', 'for', 'are', 'was',
+  'were', 'will', 'would', 'could', 'should', 'have', 'has', 'had', 'from', 'they',
+  'them', 'their', 'there', 'what', 'which', 'when', 'where', 'about', 'into', 'than',
+  'then', 'been', 'being', 'also', 'just', 'more', 'most', 'very', 'can', 'not',
+])
+
+// Business acronyms in capitals are not shouting
+const ACRONYMS = new Set(['CEO', 'CFO', 'CTO', 'COO', 'ROI', 'KPI', 'API', 'B2B', 'SAAS', 'FAQ', 'HR', 'PR', 'USA', 'EU', 'UK', 'AI', 'PDF', 'FID'])
+
+const PASSIVE_PATTERN =
+  /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(?:\w+ed|known|made|done|given|taken|seen|written|sent|built|shown|held|kept|told|paid|brought|found|left|bought|chosen|driven|grown)\b/i
+
+const REPEATED_WORD_THRESHOLD = 3
+
+/**
+ * Estimates syllables by counting vowel groups, ignoring a silent trailing "e"
+ */
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (cleaned.length === 0) return 0
+  if (cleaned.length <= 3) return 1
+
+  const withoutSilentE = cleaned.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  const groups = withoutSilentE.match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups ? groups.length : 0)
+}
+
+/**
+ * Splits text into sentences on terminal punctuation, dropping empty fragments
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[a-z0-9]/i.test(sentence))
+}
+
+/**
+ * Computes every metric for a piece of text
+ */
+export function computeMetrics(text: string): TextMetrics {
+  const sentences = splitSentences(text)
+  const words = tokenize(text).map(token => token.text)
+
+  const wordCount = words.length
+  const sentenceCount = sentences.length
+  const syllableCount = words.reduce((total, word) => total + countSyllables(word), 0)
+
+  const averageSentenceLength = sentenceCount > 0 ? wordCount / sentenceCount : 0
+  const syllablesPerWord = wordCount > 0 ? syllableCount / wordCount : 0
+  const fleschKincaidGrade = wordCount > 0
+    ? 0.39 * averageSentenceLength + 11.8 * syllablesPerWord - 15.59
+    : 0
+
+  const passiveSentences = sentences.filter(sentence => PASSIVE_PATTERN.test(sentence)).length
+  const passiveVoiceRatio = sentenceCount > 0 ? passiveSentences / sentenceCount : 0
+
+  const counts = new Map<string, number>()
+  for (const word of words) {
+    if (word.length < 4 || STOPWORDS.has(word)) continue
+    counts.set(word, (counts.get(word) ?? 0) + 1)
+  }
+  const repeatedWords = Array.from(counts.entries())
+    .filter(([, count]) => count >= REPEATED_WORD_THRESHOLD)
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count)
+
+  const shoutingWords = (text.match(/\b[A-Z][A-Z0-9]{2,}\b/g) ?? [])
+    .filter(word => !ACRONYMS.has(word) && /[A-Z]{3}/.test(word))
+
+  const excessivePunctuation = text.match(/[!?]{2,}|\.{4,}/g) ?? []
+
+  return {
+    wordCount,
+    sentenceCount,
+    averageSentenceLength: Math.round(averageSentenceLength * 10) / 10,
+    syllablesPerWord: Math.round(syllablesPerWord * 100) / 100,
+    fleschKincaidGrade: Math.round(fleschKincaidGrade * 10) / 10,
+    passiveVoiceRatio: Math.round(passiveVoiceRatio * 100) / 100,
+    repeatedWords,
+    shoutingWords,
+    excessivePunctuation,
+  }
+}
+
+// Linear falloff: full points inside the target, zero once `span` away from it
+function falloff(points: number, distance: number, span: number): number {
+  if (distance <= 0) return points
+  return Math.max(0, Math.round(points * (1 - distance / span)))
+}
+
+/**
+ * Turns metrics into rubric criteria according to the scorer's weights
+ */
+export function scoreMetrics(metrics: TextMetrics, weights: MetricWeights): CriterionResult[] {
+  const criteria: CriterionResult[] = []
+
+  if (weights.readability) {
+    const { points, minGrade, maxGrade } = weights.readability
+    const grade = metrics.fleschKincaidGrade
+    const distance = grade < minGrade ? minGrade - grade : grade - maxGrade
+    const earned = falloff(points, distance, 4)
+    criteria.push({
+      id: 'readability',
+      label: 'Readability',
+      earned,
+      possible: points,
+      matched: [`Grade level ${grade}`],
+      missing: earned < points
+        ? [grade > maxGrade
+            ? `Use shorter words and sentences: aim for a grade level of ${maxGrade} or below`
+            : `Add a little more substance: aim for a grade level of at least ${minGrade}`]
+        : [],
+    })
+  }
+
+  if (weights.sentenceLength) {
+    const { points, maxAverage } = weights.sentenceLength
+    const earned = falloff(points, metrics.averageSentenceLength - maxAverage, maxAverage)
+    criteria.push({
+      id: 'sentenceLength',
+      label: 'Sentence length',
+      earned,
+      possible: points,
+      matched: [`${metrics.averageSentenceLength} words per sentence`],
+      missing: earned < points ? [`Break long sentences up: aim for ${maxAverage} words or fewer on average`] : [],
+    })
+  }
+
+  if (weights.passiveVoice) {
+    const { points, maxRatio } = weights.passiveVoice
+    const earned = falloff(points, metrics.passiveVoiceRatio - maxRatio, 1 - maxRatio)
+    criteria.push({
+      id: 'passiveVoice',
+      label: 'Active voice',
+      earned,
+      possible: points,
+      matched: [],
+      missing: earned < points ? ['Rewrite passive sentences ("was delayed by") in the active voice ("we delayed")'] : [],
+    })
+  }
+
+  if (weights.repetition) {
+    const { points, penaltyPerWord } = weights.repetition
+    criteria.push({
+      id: 'repetition',
+      label: 'Varied wording',
+      earned: Math.max(0, points - metrics.repeatedWords.length * penaltyPerWord),
+      possible: points,
+      matched: metrics.repeatedWords.map(repeated => repeated.word),
+      missing: metrics.repeatedWords.map(repeated => `Vary "${repeated.word}" (used ${repeated.count} times)`),
+    })
+  }
+
+  if (weights.shouting) {
+    const { points, penaltyPerWord } = weights.shouting
+    criteria.push({
+      id: 'shouting',
+      label: 'No all-caps shouting',
+      earned: Math.max(0, points - metrics.shoutingWords.length * penaltyPerWord),
+      possible: points,
+      matched: metrics.shoutingWords,
+      missing: metrics.shoutingWords.map(word => `Write "${word}" in normal case`),
+    })
+  }
+
+  if (weights.punctuation) {
+    const { points, penaltyPerRun } = weights.punctuation
+    criteria.push({
+      id: 'punctuation',
+      label: 'Measured punctuation',
+      earned: Math.max(0, points - metrics.excessivePunctuation.length * penaltyPerRun),
+      possible: points,
+      matched: metrics.excessivePunctuation,
+      missing: metrics.excessivePunctuation.map(run => `Replace "${run}" with a single mark`),
+    })
+  }
+
+  return criteria
+}
@@ -0,0 +1,165 @@
+/**
+ * Mint Errors
+ * Classifies mint failures from viem's typed errors into a fixed set of codes,
+ * each with the message shown to the user and whether retrying can help
+ */
+
+import {
+  BaseError,
+  ChainDisconnectedError,
+  ChainMismatchError,
+  ChainNotFoundError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  HttpRequestError,
+  InsufficientFundsError,
+  SwitchChainError,
+  TimeoutError,
+  UnauthorizedProviderError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+} from 'viem'
+import { getActiveChain } from './chains'
+
+export type MintErrorCode =
+  | 'user-rejected' // the user declined in their wallet
+  | 'no-wallet' // no wallet or account to mint with
+  | 'wrong-network' // the wallet is on another chain and couldn't be switched
+  | 'registry-not-configured' // no registry contract at the configured address
+  | 'already-minted' // the registry already holds this credential
+  | 'contract-reverted' // the registry rejected the call for another reason
+  | 'invalid-credential' // the credential can't be minted on this registry
+  | 'attestation-failed' // the issuer wouldn't sign the credential
+  | 'sponsor-failed' // the relayer wouldn't submit a sponsored mint
+  | 'insufficient-funds'
+  | 'rpc-timeout'
+  | 'rpc-unavailable'
+  | 'tx-reverted' // mined, but reverted
+  | 'tx-replaced' // another transaction from the account used its nonce
+  | 'tx-dropped' // left the mempool without being mined
+  | 'interrupted' // the app closed before the transaction was sent
+  | 'unknown'
+
+/**
+ * When retrying can help: right away, after a wait, or not without a change
+ * to the credential or the deployment
+ */
+export type MintRetryPolicy = 'now' | 'later' | 'never'
+
+export interface MintErrorInfo {
+  code: MintErrorCode
+  message: string
+  retry: MintRetryPolicy
+}
+
+// Revert reasons the registries give for a credential hash that was already issued
+const ALREADY_ISSUED_REASONS = new Set([
+  'SkulRegistryV2: credential already issued',
+  'SkulBadge: credential already issued',
+  'SkulAttestedRegistry: credential already issued',
+])
+
+const RETRY_POLICIES: Record<MintErrorCode, MintRetryPolicy> = {
+  'user-rejected': 'now',
+  'no-wallet': 'now',
+  'wrong-network': 'now',
+  'registry-not-configured': 'never',
+  'already-minted': 'never',
+  'contract-reverted': 'never',
+  'invalid-credential': 'never',
+  'attestation-failed': 'later',
+  'sponsor-failed': 'later',
+  'insufficient-funds': 'now',
+  'rpc-timeout': 'now',
+  'rpc-unavailable': 'later',
+  'tx-reverted': 'never',
+  'tx-replaced': 'never',
+  'tx-dropped': 'now',
+  'interrupted': 'now',
+  'unknown': 'now',
+}
+
+function getDefaultMessage(code: MintErrorCode): string {
+  const { chain, label } = getActiveChain()
+  switch (code) {
+    case 'user-rejected':
+      return 'You cancelled the request in your wallet.'
+    case 'no-wallet':
+      return 'No wallet account found. Please connect your wallet.'
+    case 'wrong-network':
+      return `Please switch to ${chain.name} (Chain ID: ${chain.id}). You can switch networks in your wallet.`
+    case 'registry-not-configured':
+      return `Credential minting isn't set up on ${label} yet: there is no SKÜL registry at the configured address.`
+    case 'already-minted':
+      return 'This credential is already recorded onchain.'
+    case 'contract-reverted':
+      return 'The registry rejected this credential.'
+    case 'invalid-credential':
+      return "This credential can't be minted on this registry."
+    case 'attestation-failed':
+      return "The SKÜL issuer couldn't sign this credential. Please try again in a moment."
+    case 'sponsor-failed':
+      return "The gas sponsor couldn't submit this mint. Please try again later."
+    case 'insufficient-funds':
+      return `Your wallet needs some ETH on ${label} to pay for gas.`
+    case 'rpc-timeout':
+      return `${label} took too long to respond. Please try again.`
+    case 'rpc-unavailable':
+      return `Couldn't reach ${label}. Check your connection and try again.`
+    case 'tx-reverted':
+      return 'The mint transaction reverted onchain.'
+    case 'tx-replaced':
+      return 'The mint transaction was replaced by another one from the same account. Check your credentials to see whether it was recorded.'
+    case 'tx-dropped':
+      return 'The mint transaction was dropped before it was mined. Please try again.'
+    case 'interrupted':
+      return 'The app closed before the mint transaction was sent. Please try again.'
+    case 'unknown':
+      return 'Something went wrong while minting. Please try again.'
+  }
+}
+
+/**
+ * Returns a code's user-facing message and retry policy
+ * @param detail A more specific message to show instead of the default, e.g. the issuer's reason
+ */
+export function getMintErrorInfo(code: MintErrorCode, detail?: string): MintErrorInfo {
+  return {
+    code,
+    message: detail || getDefaultMessage(code),
+    retry: RETRY_POLICIES[code],
+  }
+}
+
+/**
+ * Classifies an error thrown while minting by walking viem's error chain
+ */
+export function classifyMintError(error: unknown): MintErrorInfo {
+  if (!(error instanceof BaseError)) {
+    // EIP-1193 errors thrown by the wallet before viem wraps them
+    const code = (error as { code?: unknown } | null)?.code
+    if (code === UserRejectedRequestError.code) return getMintErrorInfo('user-rejected')
+    if (code === UnauthorizedProviderError.code) return getMintErrorInfo('no-wallet')
+    if (code === SwitchChainError.code || code === ChainDisconnectedError.code) return getMintErrorInfo('wrong-network')
+    return getMintErrorInfo('unknown')
+  }
+
+  const find = (...types: (abstract new (...args: never[]) => Error)[]) =>
+    error.walk(cause => types.some(type => cause instanceof type))
+
+  if (find(UserRejectedRequestError)) return getMintErrorInfo('user-rejected')
+  if (find(UnauthorizedProviderError)) return getMintErrorInfo('no-wallet')
+  if (find(ChainMismatchError, ChainNotFoundError, SwitchChainError, ChainDisconnectedError)) return getMintErrorInfo('wrong-network')
+  if (find(InsufficientFundsError)) return getMintErrorInfo('insufficient-funds')
+  if (find(ContractFunctionZeroDataError)) return getMintErrorInfo('registry-not-configured')
+
+  const reverted = find(ContractFunctionRevertedError)
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.reason && ALREADY_ISSUED_REASONS.has(reverted.reason)) return getMintErrorInfo('already-minted')
+    return getMintErrorInfo('contract-reverted', reverted.reason && `The registry rejected this credential (${reverted.reason}).`)
+  }
+
+  if (find(TimeoutError)) return getMintErrorInfo('rpc-timeout')
+  if (find(HttpRequestError, WebSocketRequestError)) return getMintErrorInfo('rpc-unavailable')
+  return getMintErrorInfo('unknown')
+}
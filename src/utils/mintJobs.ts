@@ -0,0 +1,290 @@
+/**
+ * Mint Jobs
+ * Tracks each credential mint from preparation until its transaction is final,
+ * and persists it so a mint sent before the mini app closed is picked up again
+ * on relaunch
+ */
+
+import {
+  createPublicClient,
+  erc721Abi,
+  isAddressEqual,
+  parseEventLogs,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type PublicClient,
+} from 'viem'
+import { createChainTransport, getActiveChain } from './chains'
+import { getMintErrorInfo, type MintErrorCode } from './mintErrors'
+
+export type MintJobStatus =
+  | 'preparing' // checking the network, registry and attestation
+  | 'awaiting-signature' // waiting for the wallet
+  | 'submitted' // sent, not yet in a block
+  | 'confirming' // in a block, waiting for `requiredConfirmations`
+  | 'confirmed'
+  | 'reverted'
+  | 'replaced' // another transaction used its nonce
+  | 'dropped' // left the mempool without being mined
+  | 'failed' // never sent
+
+export interface MintJob {
+  id: string // the credential number being minted
+  chainId: number
+  contractAddress: `0x${string}`
+  status: MintJobStatus
+  attemptId?: number // the attempt to record the outcome on
+  txHash?: `0x${string}`
+  from?: `0x${string}` // sender and nonce, read once the transaction is seen
+  nonce?: number
+  sponsored?: boolean
+  confirmations: number
+  requiredConfirmations: number
+  tokenId?: string // set when a SkulBadge registry minted a soulbound token
+  error?: string // user-facing message
+  errorCode?: MintErrorCode
+  createdAt: number // ms since epoch
+  submittedAt?: number // ms since epoch
+  updatedAt: number // ms since epoch
+}
+
+export interface MintJobStore {
+  load(): MintJob[]
+  save(jobs: MintJob[]): void
+}
+
+export interface MintJobTracker {
+  getJobs(): MintJob[]
+  getJob(id: string): MintJob | undefined
+  start(job: Pick<MintJob, 'id' | 'contractAddress' | 'attemptId'>): MintJob
+  update(id: string, changes: Partial<Omit<MintJob, 'id'>>): MintJob
+  watch(id: string): Promise<MintJob>
+  resume(): Promise<MintJob>[]
+  subscribe(listener: (job: MintJob) => void): () => void
+}
+
+export interface MintJobTrackerOptions {
+  store: MintJobStore
+  client?: PublicClient // defaults to a client for the active chain
+  requiredConfirmations?: number // defaults to the active chain's
+  pollingIntervalMs?: number
+  droppedAfterMs?: number // how long a transaction may be missing before it counts as dropped
+}
+
+const DEFAULT_POLLING_INTERVAL_MS = 2000
+const DEFAULT_DROPPED_AFTER_MS = 10 * 60 * 1000
+const MAX_STORED_JOBS = 50
+const SETTLED_STATUSES: MintJobStatus[] = ['confirmed', 'reverted', 'replaced', 'dropped', 'failed']
+
+export function isMintJobSettled(job: MintJob): boolean {
+  return SETTLED_STATUSES.includes(job.status)
+}
+
+/**
+ * Creates a job store backed by localStorage. Writes are synchronous, so a
+ * transaction hash is saved before the app can be closed.
+ * @param key The storage key, should be unique per chain
+ */
+export function createLocalStorageJobStore(key: string): MintJobStore {
+  return {
+    load() {
+      try {
+        const raw = localStorage.getItem(key)
+        return raw ? (JSON.parse(raw) as MintJob[]) : []
+      } catch (error) {
+        console.error('Failed to load mint jobs:', error)
+        return []
+      }
+    },
+    save(jobs) {
+      try {
+        localStorage.setItem(key, JSON.stringify(jobs))
+      } catch (error) {
+        console.error('Failed to save mint jobs:', error)
+      }
+    },
+  }
+}
+
+/**
+ * Creates an in-memory job store (useful for tests and scripts)
+ */
+export function createMemoryJobStore(initial: MintJob[] = []): MintJobStore {
+  let jobs = initial
+  return {
+    load: () => jobs,
+    save: (next) => {
+      jobs = next
+    },
+  }
+}
+
+function getJobError(code: MintErrorCode): Pick<MintJob, 'error' | 'errorCode'> {
+  return { error: getMintErrorInfo(code).message, errorCode: code }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Creates a tracker that records mint jobs in `store` and polls their
+ * transactions until they are confirmed, reverted, replaced or dropped
+ */
+export function createMintJobTracker(options: MintJobTrackerOptions): MintJobTracker {
+  const client = options.client ?? createPublicClient({ chain: getActiveChain().chain, transport: createChainTransport() })
+  const requiredConfirmations = options.requiredConfirmations ?? getActiveChain().confirmations
+  const pollingIntervalMs = options.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS
+  const droppedAfterMs = options.droppedAfterMs ?? DEFAULT_DROPPED_AFTER_MS
+
+  let jobs = options.store.load()
+  const listeners = new Set<(job: MintJob) => void>()
+  const watches = new Map<string, Promise<MintJob>>()
+  const startedThisSession = new Set<string>()
+
+  const getJob = (id: string) => jobs.find(job => job.id === id)
+
+  const save = (job: MintJob) => {
+    jobs = [...jobs.filter(item => item.id !== job.id), job].slice(-MAX_STORED_JOBS)
+    options.store.save(jobs)
+    listeners.forEach(listener => listener(job))
+    return job
+  }
+
+  const update = (id: string, changes: Partial<Omit<MintJob, 'id'>>) => {
+    const job = getJob(id)
+    if (!job) throw new Error(`Unknown mint job ${id}`)
+    return save({ ...job, ...changes, updatedAt: Date.now() })
+  }
+
+  // Works out where a submitted transaction is now
+  const check = async (job: MintJob): Promise<Partial<MintJob>> => {
+    const hash = job.txHash!
+
+    const receipt = await client.getTransactionReceipt({ hash }).catch((error) => {
+      if (error instanceof TransactionReceiptNotFoundError) return null
+      throw error
+    })
+    if (receipt) {
+      if (receipt.status === 'reverted') {
+        return { status: 'reverted', ...getJobError('tx-reverted') }
+      }
+
+      const head = await client.getBlockNumber({ cacheTime: 0 })
+      const confirmations = Number(head - receipt.blockNumber + 1n)
+      if (confirmations < job.requiredConfirmations) {
+        return { status: 'confirming', confirmations }
+      }
+
+      // A SkulBadge registry also mints a soulbound token in the same transaction
+      const [minted] = parseEventLogs({ abi: erc721Abi, eventName: 'Transfer', logs: receipt.logs })
+        .filter(log => isAddressEqual(log.address, job.contractAddress))
+      return { status: 'confirmed', confirmations, tokenId: minted?.args.tokenId.toString() }
+    }
+
+    const transaction = await client.getTransaction({ hash }).catch((error) => {
+      if (error instanceof TransactionNotFoundError) return null
+      throw error
+    })
+    if (transaction) {
+      // Pending, or back in the mempool after a reorg
+      return { status: 'submitted', confirmations: 0, from: transaction.from, nonce: transaction.nonce }
+    }
+
+    // Gone from the mempool: replaced if another transaction has used its nonce
+    if (job.from && job.nonce !== undefined) {
+      const nonce = await client.getTransactionCount({ address: job.from, blockTag: 'latest' })
+      if (nonce > job.nonce) {
+        return { status: 'replaced', ...getJobError('tx-replaced') }
+      }
+    }
+    if (Date.now() - (job.submittedAt ?? job.createdAt) > droppedAfterMs) {
+      return { status: 'dropped', ...getJobError('tx-dropped') }
+    }
+    return {}
+  }
+
+  const watch = (id: string): Promise<MintJob> => {
+    const existing = watches.get(id)
+    if (existing) return existing
+
+    const watching = (async () => {
+      let job = getJob(id)
+      if (!job) throw new Error(`Unknown mint job ${id}`)
+
+      while (job.txHash && !isMintJobSettled(job)) {
+        try {
+          const changes = await check(job)
+          const changed = (Object.keys(changes) as (keyof MintJob)[]).some(key => changes[key] !== job![key])
+          if (changed) job = update(id, changes)
+        } catch (error) {
+          // RPC hiccups are retried on the next poll
+          console.error('Failed to check mint transaction:', error)
+        }
+        if (!isMintJobSettled(job)) await sleep(pollingIntervalMs)
+      }
+      return job
+    })()
+
+    watches.set(id, watching)
+    watching.finally(() => watches.delete(id)).catch(() => {})
+    return watching
+  }
+
+  return {
+    getJobs: () => jobs,
+    getJob,
+    update,
+    watch,
+
+    start({ id, contractAddress, attemptId }) {
+      startedThisSession.add(id)
+      const now = Date.now()
+      return save({
+        id,
+        chainId: client.chain?.id ?? getActiveChain().chain.id,
+        contractAddress,
+        attemptId,
+        status: 'preparing',
+        confirmations: 0,
+        requiredConfirmations,
+        createdAt: now,
+        updatedAt: now,
+      })
+    },
+
+    /**
+     * Watches every unsettled job left by an earlier session. Jobs that never
+     * got a transaction hash can't be followed, so they are marked failed.
+     */
+    resume() {
+      return jobs
+        .filter(job => !isMintJobSettled(job) && !startedThisSession.has(job.id))
+        .map((job) => {
+          if (job.txHash) return watch(job.id)
+          return Promise.resolve(update(job.id, { status: 'failed', ...getJobError('interrupted') }))
+        })
+    },
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+let activeTracker: MintJobTracker | null = null
+
+/**
+ * Returns the tracker for the active chain, persisted in localStorage
+ */
+export function getMintJobTracker(): MintJobTracker {
+  if (!activeTracker) {
+    activeTracker = createMintJobTracker({
+      store: createLocalStorageJobStore(`skul:mint-jobs:${getActiveChain().chain.id}`),
+    })
+  }
+  return activeTracker
+}
@@ -0,0 +1,346 @@
+/**
+ * Challenge Pack Loading
+ * Fetches versioned challenge packs (JSON) and validates them against the pack schema
+ */
+
+import { hasScorer, type ScorerOverrides } from './validation'
+import type { Challenge } from './challenges'
+import type { LearningTrack, TrackStep } from './tracks'
+
+export const PACK_SCHEMA_VERSION = 1
+
+export interface ChallengePack {
+  schemaVersion: number
+  id: string
+  version: string // semver, e.g. "1.2.0"
+  title: string
+  locale: string // BCP 47, e.g. "en" or "en-GB"
+  categories: string[]
+  rubric: Record<string, ScorerOverrides> // per-scorer threshold overrides
+  challenges: Challenge[]
+  tracks: LearningTrack[]
+}
+
+export interface PackValidationResult {
+  pack: ChallengePack | null
+  errors: string[]
+}
+
+export interface PackLoadResult {
+  packs: ChallengePack[]
+  errors: string[]
+}
+
+const DIFFICULTIES = ['easy', 'medium', 'hard']
+const GRADERS = ['rules', 'llm']
+const OVERRIDE_KEYS = ['passThreshold', 'excellentThreshold', 'minLength', 'idealLength']
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/
+const LOCALE_PATTERN = /^[a-z]{2,3}(?:-[A-Z]{2})?$/
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function validateOverrides(value: unknown, path: string, errors: string[]): ScorerOverrides | null {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object of threshold overrides`)
+    return null
+  }
+
+  for (const [key, threshold] of Object.entries(value)) {
+    if (!OVERRIDE_KEYS.includes(key)) {
+      errors.push(`${path}.${key}: unknown override, expected one of ${OVERRIDE_KEYS.join(', ')}`)
+      return null
+    }
+    if (typeof threshold !== 'number' || threshold < 0) {
+      errors.push(`${path}.${key}: expected a non-negative number`)
+      return null
+    }
+  }
+
+  return value as ScorerOverrides
+}
+
+function validateChallenge(
+  value: unknown,
+  path: string,
+  pack: Pick<ChallengePack, 'id' | 'locale' | 'categories' | 'rubric'>,
+  errors: string[]
+): Challenge | null {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a challenge object`)
+    return null
+  }
+
+  const entryErrors: string[] = []
+  for (const field of ['id', 'title', 'category', 'prompt', 'placeholder', 'instructions', 'scorer']) {
+    if (!isNonEmptyString(value[field])) {
+      entryErrors.push(`${path}.${field}: expected a non-empty string`)
+    }
+  }
+
+  if (isNonEmptyString(value.category) && !pack.categories.includes(value.category)) {
+    entryErrors.push(`${path}.category: "${value.category}" is not listed in the pack's categories`)
+  }
+  if (isNonEmptyString(value.scorer) && !hasScorer(value.scorer)) {
+    entryErrors.push(`${path}.scorer: unknown scorer type "${value.scorer}"`)
+  }
+  if (value.difficulty !== undefined && !DIFFICULTIES.includes(value.difficulty as string)) {
+    entryErrors.push(`${path}.difficulty: expected one of ${DIFFICULTIES.join(', ')}`)
+  }
+  if (value.grader !== undefined && !GRADERS.includes(value.grader as string)) {
+    entryErrors.push(`${path}.grader: expected one of ${GRADERS.join(', ')}`)
+  }
+
+  let scorerConfig: ScorerOverrides | null = null
+  if (value.scorerConfig !== undefined) {
+    scorerConfig = validateOverrides(value.scorerConfig, `${path}.scorerConfig`, entryErrors)
+  }
+
+  if (entryErrors.length > 0) {
+    errors.push(...entryErrors)
+    return null
+  }
+
+  const scorer = value.scorer as string
+  return {
+    id: value.id as string,
+    title: value.title as string,
+    category: value.category as string,
+    prompt: value.prompt as string,
+    placeholder: value.placeholder as string,
+    instructions: value.instructions as string,
+    scorer,
+    grader: value.grader as Challenge['grader'],
+    difficulty: value.difficulty as Challenge['difficulty'],
+    scorerConfig: { ...pack.rubric[scorer], ...scorerConfig },
+    packId: pack.id,
+    locale: pack.locale,
+  }
+}
+
+function validateTrack(value: unknown, path: string, challengeIds: Set<string>, errors: string[]): LearningTrack | null {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a track object`)
+    return null
+  }
+
+  const trackErrors: string[] = []
+  for (const field of ['id', 'title', 'credential']) {
+    if (!isNonEmptyString(value[field])) {
+      trackErrors.push(`${path}.${field}: expected a non-empty string`)
+    }
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    trackErrors.push(`${path}.steps: expected a non-empty array`)
+  }
+  if (trackErrors.length > 0) {
+    errors.push(...trackErrors)
+    return null
+  }
+
+  const steps: TrackStep[] = []
+  const earlierStepIds = new Set<string>()
+  for (const [index, step] of (value.steps as unknown[]).entries()) {
+    const stepPath = `${path}.steps[${index}]`
+    if (!isObject(step) || !isNonEmptyString(step.id) || !isNonEmptyString(step.challengeId)) {
+      trackErrors.push(`${stepPath}: expected an object with string "id" and "challengeId"`)
+      continue
+    }
+    if (!challengeIds.has(step.challengeId)) {
+      trackErrors.push(`${stepPath}.challengeId: "${step.challengeId}" is not a valid challenge in this pack`)
+    }
+    if (earlierStepIds.has(step.id)) {
+      trackErrors.push(`${stepPath}.id: duplicate step id "${step.id}"`)
+    }
+
+    const prerequisites = step.prerequisites ?? []
+    if (!Array.isArray(prerequisites) || !prerequisites.every(isNonEmptyString)) {
+      trackErrors.push(`${stepPath}.prerequisites: expected an array of step ids`)
+    } else {
+      // Prerequisites must point backwards, which also rules out cycles
+      for (const prerequisite of prerequisites) {
+        if (!earlierStepIds.has(prerequisite)) {
+          trackErrors.push(`${stepPath}.prerequisites: "${prerequisite}" is not an earlier step in this track`)
+        }
+      }
+    }
+
+    earlierStepIds.add(step.id)
+    steps.push({
+      id: step.id,
+      challengeId: step.challengeId,
+      prerequisites: Array.isArray(prerequisites) ? (prerequisites as string[]) : [],
+    })
+  }
+
+  if (trackErrors.length > 0) {
+    errors.push(...trackErrors)
+    return null
+  }
+
+  return {
+    id: value.id as string,
+    title: value.title as string,
+    credential: value.credential as string,
+    steps,
+  }
+}
+
+/**
+ * Validates raw pack JSON against the pack schema.
+ * Pack-level problems reject the whole pack; a malformed challenge entry is
+ * reported and dropped while the rest of the pack is kept.
+ * @param data The parsed JSON
+ * @param source Label used to prefix error messages (usually the file name)
+ */
+export function validateChallengePack(data: unknown, source: string): PackValidationResult {
+  const errors: string[] = []
+
+  if (!isObject(data)) {
+    return { pack: null, errors: [`${source}: expected a JSON object`] }
+  }
+
+  if (data.schemaVersion !== PACK_SCHEMA_VERSION) {
+    errors.push(`${source}.schemaVersion: expected ${PACK_SCHEMA_VERSION}, got ${JSON.stringify(data.schemaVersion)}`)
+  }
+  if (!isNonEmptyString(data.id)) {
+    errors.push(`${source}.id: expected a non-empty string`)
+  }
+  if (!isNonEmptyString(data.title)) {
+    errors.push(`${source}.title: expected a non-empty string`)
+  }
+  if (typeof data.version !== 'string' || !SEMVER_PATTERN.test(data.version)) {
+    errors.push(`${source}.version: expected a semver string such as "1.0.0"`)
+  }
+  if (typeof data.locale !== 'string' || !LOCALE_PATTERN.test(data.locale)) {
+    errors.push(`${source}.locale: expected a locale such as "en" or "en-GB"`)
+  }
+  if (!Array.isArray(data.categories) || data.categories.length === 0 || !data.categories.every(isNonEmptyString)) {
+    errors.push(`${source}.categories: expected a non-empty array of strings`)
+  }
+  if (!Array.isArray(data.challenges)) {
+    errors.push(`${source}.challenges: expected an array`)
+  }
+  if (data.tracks !== undefined && !Array.isArray(data.tracks)) {
+    errors.push(`${source}.tracks: expected an array`)
+  }
+
+  const rubric: Record<string, ScorerOverrides> = {}
+  if (data.rubric !== undefined) {
+    if (!isObject(data.rubric)) {
+      errors.push(`${source}.rubric: expected an object keyed by scorer type`)
+    } else {
+      for (const [scorer, overrides] of Object.entries(data.rubric)) {
+        if (!hasScorer(scorer)) {
+          errors.push(`${source}.rubric.${scorer}: unknown scorer type`)
+          continue
+        }
+        const validated = validateOverrides(overrides, `${source}.rubric.${scorer}`, errors)
+        if (validated) rubric[scorer] = validated
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors }
+  }
+
+  const packInfo = {
+    id: data.id as string,
+    locale: data.locale as string,
+    categories: data.categories as string[],
+    rubric,
+  }
+
+  const seenIds = new Set<string>()
+  const challenges: Challenge[] = []
+  for (const [index, entry] of (data.challenges as unknown[]).entries()) {
+    const challenge = validateChallenge(entry, `${source}.challenges[${index}]`, packInfo, errors)
+    if (!challenge) continue
+    if (seenIds.has(challenge.id)) {
+      errors.push(`${source}.challenges[${index}].id: duplicate challenge id "${challenge.id}"`)
+      continue
+    }
+    seenIds.add(challenge.id)
+    challenges.push(challenge)
+  }
+
+  // A track referencing a dropped or unknown challenge is dropped as a whole
+  const tracks: LearningTrack[] = []
+  for (const [index, entry] of ((data.tracks ?? []) as unknown[]).entries()) {
+    const track = validateTrack(entry, `${source}.tracks[${index}]`, seenIds, errors)
+    if (track) tracks.push(track)
+  }
+
+  return {
+    pack: {
+      schemaVersion: PACK_SCHEMA_VERSION,
+      id: packInfo.id,
+      version: data.version as string,
+      title: data.title as string,
+      locale: packInfo.locale,
+      categories: packInfo.categories,
+      rubric,
+      challenges,
+      tracks,
+    },
+    errors,
+  }
+}
+
+/**
+ * Fetches the pack manifest and every pack it lists, validating each one.
+ * Network or parse failures for one pack don't prevent the others loading.
+ * @param manifestUrl URL of the manifest, `{ "packs": ["<file>.json", ...] }`
+ */
+export async function loadChallengePacks(manifestUrl: string): Promise<PackLoadResult> {
+  const errors: string[] = []
+  const packs: ChallengePack[] = []
+
+  let manifest: unknown
+  try {
+    const response = await fetch(manifestUrl)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    manifest = await response.json()
+  } catch (error) {
+    return { packs, errors: [`${manifestUrl}: failed to load manifest (${(error as Error).message})`] }
+  }
+
+  if (!isObject(manifest) || !Array.isArray(manifest.packs) || !manifest.packs.every(isNonEmptyString)) {
+    return { packs, errors: [`${manifestUrl}.packs: expected an array of pack file names`] }
+  }
+
+  const results = await Promise.all(
+    (manifest.packs as string[]).map(async (file) => {
+      const url = new URL(file, new URL(manifestUrl, window.location.href)).toString()
+      try {
+        const response = await fetch(url)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return validateChallengePack(await response.json(), file)
+      } catch (error) {
+        return { pack: null, errors: [`${file}: failed to load (${(error as Error).message})`] }
+      }
+    })
+  )
+
+  for (const result of results) {
+    errors.push(...result.errors)
+    if (result.pack) packs.push(result.pack)
+  }
+
+  return { packs, errors }
+}
+
+/**
+ * Returns the configured pack manifest URL (VITE_CHALLENGE_PACKS_URL)
+ */
+export function getChallengePacksUrl(): string {
+  return import.meta.env.VITE_CHALLENGE_PACKS_URL || '/challenge-packs/index.json'
+}
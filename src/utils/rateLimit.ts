@@ -0,0 +1,69 @@
+/**
+ * Rate Limiting
+ * An in-memory sliding-window limiter, shared by the service's request limits
+ * and the relayer's mint quotas; enough for a single process
+ */
+
+export interface RateLimitOptions {
+  limit: number // requests allowed per window
+  windowMs: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(key: string, now?: number): RateLimitDecision
+  release(key: string): void // gives back the key's latest take
+}
+
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const hits = new Map<string, number[]>()
+
+  return {
+    take(key, now = Date.now()) {
+      const windowStart = now - options.windowMs
+      const recent = (hits.get(key) ?? []).filter(time => time > windowStart)
+
+      // Drop idle keys so the map doesn't grow with every FID ever seen
+      for (const [otherKey, times] of hits) {
+        if (times[times.length - 1] <= windowStart) hits.delete(otherKey)
+      }
+
+      if (recent.length >= options.limit) {
+        hits.set(key, recent)
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + options.windowMs - now }
+      }
+
+      recent.push(now)
+      hits.set(key, recent)
+      return { allowed: true, remaining: options.limit - recent.length, retryAfterMs: 0 }
+    },
+
+    release(key) {
+      const times = hits.get(key)
+      times?.pop()
+      if (times?.length === 0) hits.delete(key)
+    },
+  }
+}
+
+/**
+ * Takes from every key, or from none: the first refusal gives back the keys
+ * already taken and is returned
+ */
+export function takeAll(limiter: RateLimiter, keys: string[], now = Date.now()): RateLimitDecision {
+  let decision: RateLimitDecision = { allowed: true, remaining: Infinity, retryAfterMs: 0 }
+  for (const [index, key] of keys.entries()) {
+    const taken = limiter.take(key, now)
+    if (!taken.allowed) {
+      keys.slice(0, index).forEach(limiter.release)
+      return taken
+    }
+    decision = { ...decision, remaining: Math.min(decision.remaining, taken.remaining) }
+  }
+  return decision
+}
@@ -0,0 +1,414 @@
+/**
+ * Sponsored Minting
+ * ERC-2771 meta-transactions through SkulForwarder: the user signs a
+ * `ForwardRequest` for the registry call and a relayer submits it and pays
+ * the gas, within a quota per signing wallet and an overall budget
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  decodeFunctionData,
+  http,
+  isAddressEqual,
+  type Chain,
+  type LocalAccount,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { SKUL_ATTESTED_REGISTRY_ABI, SKUL_REGISTRY_V2_ABI } from './badge'
+import { createChainTransport, getActiveChain } from './chains'
+import { createRateLimiter, type RateLimitOptions } from './rateLimit'
+
+export interface ForwardRequest {
+  from: `0x${string}`
+  to: `0x${string}`
+  value: string // uint256 as a decimal string
+  gas: string // uint256 as a decimal string
+  nonce: string // uint256 as a decimal string
+  deadline: number // unix seconds
+  data: `0x${string}`
+}
+
+export interface SignedForwardRequest {
+  request: ForwardRequest
+  signature: `0x${string}`
+}
+
+export interface RelayResult {
+  success: boolean
+  txHash?: `0x${string}`
+  error?: string
+  retryAfterMs?: number // set when the wallet's quota or the overall budget is used up
+}
+
+export interface Relayer {
+  relay(signed: SignedForwardRequest): Promise<RelayResult>
+}
+
+export interface RelayerOptions {
+  account: LocalAccount // pays the gas
+  forwarderAddress: `0x${string}`
+  registryAddress: `0x${string}` // the only contract the relayer will call
+  chain: Chain
+  rpcUrl?: string
+  quota?: RateLimitOptions // sponsored mints per wallet (default 3 a day)
+  budget?: RateLimitOptions // sponsored mints across all wallets (default 100 a day)
+}
+
+const DEFAULT_QUOTA: RateLimitOptions = { limit: 3, windowMs: 24 * 60 * 60 * 1000 }
+const DEFAULT_BUDGET: RateLimitOptions = { limit: 100, windowMs: 24 * 60 * 60 * 1000 }
+const SPONSORED_CALL_GAS = 500000n
+const REQUEST_TTL_SECONDS = 600
+
+export const SKUL_FORWARDER_ABI = [
+  {
+    inputs: [{ internalType: 'address', name: 'from', type: 'address' }],
+    name: 'getNonce',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'uint256', name: 'value', type: 'uint256' },
+          { internalType: 'uint256', name: 'gas', type: 'uint256' },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+          { internalType: 'bytes', name: 'data', type: 'bytes' },
+        ],
+        internalType: 'struct SkulForwarder.ForwardRequest',
+        name: 'req',
+        type: 'tuple',
+      },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'verify',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'uint256', name: 'value', type: 'uint256' },
+          { internalType: 'uint256', name: 'gas', type: 'uint256' },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+          { internalType: 'bytes', name: 'data', type: 'bytes' },
+        ],
+        internalType: 'struct SkulForwarder.ForwardRequest',
+        name: 'req',
+        type: 'tuple',
+      },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'execute',
+    outputs: [{ internalType: 'bytes', name: '', type: 'bytes' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const
+
+const TRUSTED_FORWARDER_ABI = [
+  {
+    inputs: [{ internalType: 'address', name: 'forwarder', type: 'address' }],
+    name: 'isTrustedForwarder',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+  ],
+} as const
+
+export function getForwarderDomain(forwarderAddress: `0x${string}`, chainId: number) {
+  return {
+    name: 'SkulForwarder',
+    version: '1',
+    chainId,
+    verifyingContract: forwarderAddress,
+  } as const
+}
+
+function toForwardRequestMessage(request: ForwardRequest) {
+  return {
+    from: request.from,
+    to: request.to,
+    value: BigInt(request.value),
+    gas: BigInt(request.gas),
+    nonce: BigInt(request.nonce),
+    deadline: BigInt(request.deadline),
+    data: request.data,
+  }
+}
+
+/**
+ * Whether the calldata is an `issueCredential` call on a v2 or attested registry
+ */
+function isSponsoredCall(data: `0x${string}`): boolean {
+  // Built here rather than at module scope: badge.ts imports this module too
+  const abi = [...SKUL_REGISTRY_V2_ABI, ...SKUL_ATTESTED_REGISTRY_ABI].filter(
+    item => item.type === 'function' && item.name === 'issueCredential'
+  )
+
+  try {
+    decodeFunctionData({ abi, data })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Creates a relayer that submits signed forward requests for credential mints
+ * and pays their gas. Only `issueCredential` calls to the configured registry
+ * are sponsored. Each signing wallet gets `quota.limit` of them per window and
+ * all wallets together get `budget.limit`, since wallets cost nothing to make.
+ * The FID in the calldata is whatever the signer chose, so it isn't a quota key.
+ */
+export function createRelayer(options: RelayerOptions): Relayer {
+  const transport = options.rpcUrl ? http(options.rpcUrl) : createChainTransport(options.chain)
+  const publicClient = createPublicClient({ chain: options.chain, transport })
+  const walletClient = createWalletClient({ account: options.account, chain: options.chain, transport })
+  const quota = createRateLimiter(options.quota ?? DEFAULT_QUOTA)
+  const budget = createRateLimiter(options.budget ?? DEFAULT_BUDGET)
+  // Requests being relayed or already sent, by signer and nonce, until their deadline (unix seconds)
+  const claimed = new Map<string, number>()
+
+  return {
+    async relay({ request, signature }) {
+      if (!isAddressEqual(request.to, options.registryAddress)) {
+        return { success: false, error: 'Only credential mints on the SKÜL registry can be sponsored.' }
+      }
+      if (BigInt(request.value) !== 0n || BigInt(request.gas) > SPONSORED_CALL_GAS) {
+        return { success: false, error: 'This request asks for more than a sponsored mint needs.' }
+      }
+      if (!isSponsoredCall(request.data)) {
+        return { success: false, error: 'Only credential mints on the SKÜL registry can be sponsored.' }
+      }
+
+      // Claimed before any await, so copies of a request sent at once can't all pass verify and be sent
+      const now = Date.now()
+      for (const [key, deadline] of claimed) {
+        if (deadline * 1000 < now) claimed.delete(key)
+      }
+      const requestKey = `${request.from.toLowerCase()}:${request.nonce}`
+      if (claimed.has(requestKey)) {
+        return { success: false, error: 'This request is already being relayed.' }
+      }
+
+      const walletKey = `address:${request.from.toLowerCase()}`
+      const decision = quota.take(walletKey, now)
+      if (!decision.allowed) {
+        return {
+          success: false,
+          error: 'You have used all your sponsored mints for now. Try again later or pay the gas yourself.',
+          retryAfterMs: decision.retryAfterMs,
+        }
+      }
+      const overall = budget.take('all', now)
+      if (!overall.allowed) {
+        quota.release(walletKey)
+        return {
+          success: false,
+          error: 'Sponsored mints are used up for now. Try again later or pay the gas yourself.',
+          retryAfterMs: overall.retryAfterMs,
+        }
+      }
+      claimed.set(requestKey, request.deadline)
+
+      // Nothing was sponsored, so the mint doesn't count against the quota or budget
+      const giveBack = () => {
+        quota.release(walletKey)
+        budget.release('all')
+        claimed.delete(requestKey)
+      }
+
+      try {
+        const message = toForwardRequestMessage(request)
+        const verified = await publicClient.readContract({
+          address: options.forwarderAddress,
+          abi: SKUL_FORWARDER_ABI,
+          functionName: 'verify',
+          args: [message, signature],
+        })
+        if (!verified) {
+          giveBack()
+          return { success: false, error: 'The signature does not match the request, or the nonce was already used.' }
+        }
+
+        // Surfaces the registry's revert reason (e.g. a duplicate credential) before any gas is spent
+        const { request: execute } = await publicClient.simulateContract({
+          account: options.account,
+          address: options.forwarderAddress,
+          abi: SKUL_FORWARDER_ABI,
+          functionName: 'execute',
+          args: [message, signature],
+        })
+
+        return { success: true, txHash: await walletClient.writeContract(execute) }
+      } catch (error) {
+        giveBack()
+        throw error
+      }
+    },
+  }
+}
+
+/**
+ * Creates a relayer backed by the service's `POST /relay` endpoint
+ * @param baseUrl e.g. http://localhost:8787
+ */
+export function createRemoteRelayer(baseUrl: string): Relayer {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/relay`
+
+  return {
+    async relay(signed) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(signed),
+      })
+
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        const retryAfterSeconds = Number(response.headers.get('Retry-After'))
+        return {
+          success: false,
+          error: data?.error || `Relayer responded with HTTP ${response.status}`,
+          retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
+        }
+      }
+      return { success: true, txHash: data.txHash }
+    },
+  }
+}
+
+/**
+ * Creates an in-process relayer from a funded private key on the active
+ * chain. A stand-in for the relay service against a local Hardhat node;
+ * never ship a funded key to the browser.
+ */
+export function createLocalRelayer(privateKey: `0x${string}`): Relayer | null {
+  const config = getActiveChain()
+  if (!config.forwarderAddress) return null
+
+  return createRelayer({
+    account: privateKeyToAccount(privateKey),
+    forwarderAddress: config.forwarderAddress,
+    registryAddress: config.registryAddress,
+    chain: config.chain,
+  })
+}
+
+let configuredRelayer: Relayer | null | undefined
+
+/**
+ * Returns the configured relayer: the service at VITE_RELAYER_URL, or, in
+ * development only, the local stand-in when VITE_DEV_RELAYER_PRIVATE_KEY is
+ * set. Created once, so the stand-in's quotas last for the session.
+ * @returns null when minting isn't sponsored
+ */
+export function getRelayer(): Relayer | null {
+  if (configuredRelayer !== undefined) return configuredRelayer
+
+  const url = import.meta.env.VITE_RELAYER_URL
+  // Read only in development, so a production build neither pays with nor bundles the key
+  const devKey = import.meta.env.DEV ? import.meta.env.VITE_DEV_RELAYER_PRIVATE_KEY : undefined
+  if (url) {
+    configuredRelayer = createRemoteRelayer(url)
+  } else if (devKey) {
+    console.warn('Using the local relayer stand-in (VITE_DEV_RELAYER_PRIVATE_KEY). Do not use this in production.')
+    configuredRelayer = createLocalRelayer(devKey as `0x${string}`)
+  } else {
+    configuredRelayer = null
+  }
+  return configuredRelayer
+}
+
+/**
+ * Whether a registry accepts calls relayed by the forwarder. v1 registries
+ * and deployments without a forwarder don't.
+ */
+export async function isSponsorable(
+  publicClient: PublicClient,
+  registryAddress: `0x${string}`,
+  forwarderAddress: `0x${string}`
+): Promise<boolean> {
+  try {
+    return await publicClient.readContract({
+      address: registryAddress,
+      abi: TRUSTED_FORWARDER_ABI,
+      functionName: 'isTrustedForwarder',
+      args: [forwarderAddress],
+    })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Signs a forward request for `data` with the user's wallet and has the
+ * relayer submit it
+ * @returns The relayer's transaction hash
+ * @throws if the relayer refuses or fails to submit the request
+ */
+export async function sendSponsored(params: {
+  relayer: Relayer
+  walletClient: WalletClient
+  publicClient: PublicClient
+  account: `0x${string}`
+  forwarderAddress: `0x${string}`
+  to: `0x${string}`
+  data: `0x${string}`
+}): Promise<`0x${string}`> {
+  const nonce = await params.publicClient.readContract({
+    address: params.forwarderAddress,
+    abi: SKUL_FORWARDER_ABI,
+    functionName: 'getNonce',
+    args: [params.account],
+  })
+
+  const request: ForwardRequest = {
+    from: params.account,
+    to: params.to,
+    value: '0',
+    gas: SPONSORED_CALL_GAS.toString(),
+    nonce: nonce.toString(),
+    deadline: Math.floor(Date.now() / 1000) + REQUEST_TTL_SECONDS,
+    data: params.data,
+  }
+
+  const signature = await params.walletClient.signTypedData({
+    account: params.account,
+    domain: getForwarderDomain(params.forwarderAddress, await params.publicClient.getChainId()),
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: 'ForwardRequest',
+    message: toForwardRequestMessage(request),
+  })
+
+  const result = await params.relayer.relay({ request, signature })
+  if (!result.success || !result.txHash) {
+    throw new Error(result.error || 'The relayer could not submit the mint')
+  }
+  return result.txHash
+}
@@ -0,0 +1,111 @@
+/**
+ * Routing
+ * Maps the URL to what the app shows. Everything except the public
+ * verification pages is the mini app itself, whose screens stay in-memory state.
+ */
+
+import { isAddress, isHash } from 'viem'
+import type { CredentialClaim, CredentialInput, CredentialRecord } from './badge'
+
+export type AppRoute =
+  | { name: 'app' }
+  | { name: 'verify-address'; address: `0x${string}`; claim: CredentialClaim | null }
+  | { name: 'verify-tx'; hash: `0x${string}`; claim: CredentialClaim | null }
+  | { name: 'verify-invalid'; path: string } // a /verify link with a malformed address or hash
+
+const VERIFY_PREFIX = '/verify/'
+const NAVIGATE_EVENT = 'skul:navigate'
+
+// Reads a shared claim from the query: the credential number and, optionally, all of its inputs
+function parseClaim(params: URLSearchParams): CredentialClaim | null {
+  const credentialNumber = params.get('credential')
+  if (!credentialNumber || !isHash(credentialNumber)) return null
+
+  const fid = Number(params.get('fid'))
+  const wallet = params.get('wallet')
+  const challengeId = params.get('challengeId')
+  const answerDigest = params.get('answerDigest')
+  const timestamp = Number(params.get('timestamp'))
+  const complete = params.has('fid') && Number.isSafeInteger(fid) && fid >= 0 &&
+    !!wallet && isAddress(wallet) &&
+    !!challengeId &&
+    !!answerDigest && isHash(answerDigest) &&
+    Number.isSafeInteger(timestamp) && timestamp > 0
+
+  const input: CredentialInput | undefined = complete
+    ? { fid, wallet: wallet as `0x${string}`, challengeId: challengeId!, answerDigest: answerDigest as `0x${string}`, timestamp }
+    : undefined
+  return { credentialNumber, input }
+}
+
+/**
+ * Works out the route for a URL
+ */
+export function parseRoute(location: Pick<Location, 'pathname' | 'search'>): AppRoute {
+  const path = location.pathname.replace(/\/+$/, '')
+  if (!path.startsWith(VERIFY_PREFIX)) return { name: 'app' }
+
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(path.slice(VERIFY_PREFIX.length))
+  } catch {
+    // A malformed escape such as %E0
+    return { name: 'verify-invalid', path }
+  }
+
+  const claim = parseClaim(new URLSearchParams(location.search))
+  const [kind, value, ...rest] = decoded.split('/')
+  if (kind === 'tx' && value && isHash(value) && rest.length === 0) {
+    return { name: 'verify-tx', hash: value, claim }
+  }
+  if (kind && isAddress(kind) && value === undefined) {
+    return { name: 'verify-address', address: kind, claim }
+  }
+  return { name: 'verify-invalid', path }
+}
+
+/**
+ * Builds the public verification path for a credential: by transaction once it
+ * is minted, otherwise by wallet. The inputs ride along so the page can
+ * recompute the number.
+ */
+export function getVerifyPath(record: CredentialRecord): string {
+  const params = new URLSearchParams({
+    credential: record.credentialNumber,
+    fid: String(record.fid),
+    wallet: record.wallet,
+    challengeId: record.challengeId,
+    answerDigest: record.answerDigest,
+    timestamp: String(record.timestamp),
+  })
+  const base = record.txHash ? `${VERIFY_PREFIX}tx/${record.txHash}` : `${VERIFY_PREFIX}${record.wallet}`
+  return `${base}?${params}`
+}
+
+/**
+ * Returns the verification page's absolute URL, for sharing
+ */
+export function getVerifyUrl(record: CredentialRecord): string {
+  return new URL(getVerifyPath(record), window.location.origin).toString()
+}
+
+/**
+ * Moves to a path without reloading the page
+ */
+export function navigate(path: string): void {
+  window.history.pushState(null, '', path)
+  window.dispatchEvent(new Event(NAVIGATE_EVENT))
+}
+
+/**
+ * Calls `listener` whenever the URL changes, through navigate() or the back and forward buttons
+ * @returns A function that stops listening
+ */
+export function subscribeToRoute(listener: () => void): () => void {
+  window.addEventListener('popstate', listener)
+  window.addEventListener(NAVIGATE_EVENT, listener)
+  return () => {
+    window.removeEventListener('popstate', listener)
+    window.removeEventListener(NAVIGATE_EVENT, listener)
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Scoring Regression Corpus
+ * Reference answers with the score each scorer gave with the original
+ * substring matching (`before`) and the score expected now (`expected`).
+ * `npm run test:scoring` fails when any score differs from `expected`; run it
+ * after changing a rubric, the matcher in text.ts, the email parser or the
+ * metric weights to see exactly which scores move.
+ */
+
+import { scoreAnswer } from './validation'
+
+export interface CorpusEntry {
+  scorer: string
+  answer: string
+  reason: string
+  before: number
+  expected: number
+}
+
+export interface CorpusResult extends CorpusEntry {
+  actual: number
+  matchesExpected: boolean
+}
+
+export const SCORING_CORPUS: CorpusEntry[] = [
+  {
+    scorer: 'email',
+    answer: 'Dear Ms. Lee, this is the report which you asked for last week. Kind regards, Tom',
+    reason: '"hi" no longer matches inside "this" and "which"; "yo"/"u" no longer match inside "you"',
+    before: 70,
+    expected: 100,
+  },
+  {
+    scorer: 'email',
+    answer: 'Dear team, please find your copy of the quarterly figures attached. Sincerely, Dana',
+    reason: '"yo" no longer matches inside "your"',
+    before: 80,
+    expected: 100,
+  },
+  {
+    scorer: 'email',
+    answer: 'Dear Sam, could you adjust the figures before Friday? Regards, Priya',
+    reason: '"just" no longer matches inside "adjust"',
+    before: 70,
+    expected: 100,
+  },
+  {
+    scorer: 'email',
+    answer: 'Hello Ms. Chen, following up on your request for the delivery schedule we discussed.',
+    reason: '"best" inside "request" no longer counts as a closing; salutation and body still earn structure points',
+    before: 50,
+    expected: 75,
+  },
+  {
+    scorer: 'email',
+    answer: 'Hello Mark, I do not appreciate how this meeting was handled and I want a change.',
+    reason: 'negated "appreciate" no longer counts as polite',
+    before: 80,
+    expected: 75,
+  },
+  {
+    scorer: 'email',
+    answer: 'Dear Anna, apologizing for the delay, the report will reach you by Friday. Regards, Ben',
+    reason: '"apologizing" matches the "apologize" indicator by stem',
+    before: 80,
+    expected: 100,
+  },
+  {
+    scorer: 'email',
+    answer: 'hey, can u send me that report? need it asap. thx, this is urgent for the board',
+    reason: 'control: genuinely casual wording is still penalized; only the body earns structure points',
+    before: 40,
+    expected: 42,
+  },
+  {
+    scorer: 'email',
+    answer: 'Dear Mr. Brown, I apologize for the delay. I will send the report by Friday. Kind regards, Anna',
+    reason: 'control: a well-formed email is unchanged',
+    before: 100,
+    expected: 100,
+  },
+  {
+    scorer: 'email',
+    answer: 'Dear Tom, Kind regards, Anna. The report is late and I will send it on Friday afternoon.',
+    reason: 'closing that is not last no longer earns the closing and signature points',
+    before: 100,
+    expected: 95,
+  },
+  {
+    scorer: 'negotiation',
+    answer: 'I do not understand why you expect this and I do not value the request much at all.',
+    reason: 'negated "understand" and "value" no longer count as diplomatic',
+    before: 80,
+    expected: 70,
+  },
+  {
+    scorer: 'negotiation',
+    answer: 'We cannot offer a discount of that size, but we would be glad to explore alternative packages with you.',
+    reason: 'refusing the discount still maintains the position; readable wording earns style points',
+    before: 80,
+    expected: 90,
+  },
+  {
+    scorer: 'negotiation',
+    answer: 'We are happy to give you a discount on all services for the coming year, starting now.',
+    reason: 'granting the discount still loses the position points',
+    before: 40,
+    expected: 50,
+  },
+  {
+    scorer: 'negotiation',
+    answer: 'I understand your budget concerns and appreciate our partnership, so let us consider a flexible payment plan together.',
+    reason: 'control: diplomatic answer is unchanged',
+    before: 100,
+    expected: 100,
+  },
+  {
+    scorer: 'presentation',
+    answer: 'We are not excited about small steps. Today we launch something bigger for every team.',
+    reason: 'negated "excited" no longer counts as engaging',
+    before: 100,
+    expected: 92,
+  },
+  {
+    scorer: 'presentation',
+    answer: 'We are thrilled to introduce our innovative platform. It transforms how teams collaborate.',
+    reason: 'product buzzwords earn nothing, "thrilled" earns the small engagement share; long words cost a little readability',
+    before: 100,
+    expected: 99,
+  },
+  {
+    scorer: 'presentation',
+    answer: 'REVOLUTIONARY!!! Our revolutionary innovative breakthrough revolutionary product will transform everything!!! Revolutionary',
+    reason: 'buzzwords earn nothing: unreadable wording, shouting, repeated words and "!!!" fail it',
+    before: 85,
+    expected: 58,
+  },
+  {
+    scorer: 'presentation',
+    answer: 'Good morning, everyone. Today we launch Atlas, a scheduling tool for busy teams. It cuts planning time in half, and I will show you how in the next ten minutes.',
+    reason: 'a clear introduction without buzzwords is rewarded for readability',
+    before: 80,
+    expected: 84,
+  },
+]
+
+/**
+ * Scores every corpus entry with the currently registered scorers
+ */
+export function runScoringCorpus(corpus: CorpusEntry[] = SCORING_CORPUS): CorpusResult[] {
+  return corpus.map(entry => {
+    const actual = scoreAnswer(entry.scorer, entry.answer).score
+    return { ...entry, actual, matchesExpected: actual === entry.expected }
+  })
+}
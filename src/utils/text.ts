@@ -0,0 +1,135 @@
+/**
+ * Text Matching Utilities
+ * Shared tokenizer and phrase matcher used by the scorers in validation.ts
+ */
+
+export interface Token {
+  text: string // lowercased surface form
+  stem: string
+  index: number
+  clause: number // tokens in different clauses never share a negation window
+}
+
+export interface PhraseMatch {
+  phrase: string
+  tokenIndex: number
+  negated: boolean
+}
+
+export interface MatchOptions {
+  /** Drop matches that fall inside a negation window ("I do not appreciate") */
+  excludeNegated?: boolean
+  /** Compare surface forms instead of stems ("regards" must not match "regarding") */
+  exact?: boolean
+}
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nor', 'neither', 'cannot', 'without', 'hardly',
+  "don't", "doesn't", "didn't", "won't", "wouldn't", "can't", "couldn't",
+  "shouldn't", "isn't", "aren't", "wasn't", "weren't", "haven't", "hasn't",
+])
+
+// How many tokens before a phrase a negator still applies to
+const NEGATION_WINDOW = 3
+
+const TOKEN_PATTERN = /[a-z0-9]+(?:'[a-z]+)?|[.!?;:]/g
+const CLAUSE_BREAK = /^[.!?;:]$/
+
+/**
+ * Reduces simple inflections to a shared stem so that
+ * "apologize", "apologizes", "apologized" and "apologizing" all match.
+ * Deliberately conservative: short words are left untouched.
+ */
+export function stem(word: string): string {
+  let result = word.replace(/'s$/, '')
+  if (result.length <= 3) return result
+
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`
+  } else if (result.endsWith('ing') && result.length > 5) {
+    result = result.slice(0, -3)
+  } else if (result.endsWith('ed') && result.length > 4) {
+    result = result.slice(0, -2)
+  } else if (result.endsWith('es') && result.length > 4 && /(?:ss|sh|ch|x|z)es$/.test(result)) {
+    result = result.slice(0, -2)
+  } else if (result.endsWith('s') && !result.endsWith('ss') && result.length > 4) {
+    result = result.slice(0, -1)
+  }
+
+  // Undo consonant doubling ("planned" -> "plann" -> "plan")
+  if (/([bdgmnprt])\1$/.test(result) && result !== word) {
+    result = result.slice(0, -1)
+  }
+
+  // Drop a trailing silent "e" so "apologize" and "apologiz(ing)" agree
+  if (result.endsWith('e') && result.length > 4) {
+    result = result.slice(0, -1)
+  }
+
+  return result
+}
+
+/**
+ * Splits text into lowercase word tokens on word boundaries.
+ * Sentence punctuation only advances the clause counter.
+ */
+export function tokenize(text: string): Token[] {
+  const normalized = text.toLowerCase().replace(/[‘’]/g, "'")
+  const tokens: Token[] = []
+  let clause = 0
+
+  for (const [raw] of normalized.matchAll(TOKEN_PATTERN)) {
+    if (CLAUSE_BREAK.test(raw)) {
+      clause += 1
+      continue
+    }
+    tokens.push({ text: raw, stem: stem(raw), index: tokens.length, clause })
+  }
+
+  return tokens
+}
+
+function isNegated(tokens: Token[], start: number): boolean {
+  const clause = tokens[start].clause
+  for (let i = start - 1; i >= Math.max(0, start - NEGATION_WINDOW); i--) {
+    if (tokens[i].clause !== clause) return false
+    if (NEGATORS.has(tokens[i].text)) return true
+  }
+  return false
+}
+
+/**
+ * Finds every occurrence of each phrase in the token stream.
+ * Multi-word phrases must appear as consecutive tokens in one clause; each
+ * word is compared by stem (unless `exact`) so inflected forms match.
+ */
+export function findPhrases(tokens: Token[], phrases: string[], options: MatchOptions = {}): PhraseMatch[] {
+  const matches: PhraseMatch[] = []
+
+  for (const phrase of phrases) {
+    const key = options.exact ? 'text' : 'stem'
+    const phraseWords = tokenize(phrase).map(token => token[key])
+    if (phraseWords.length === 0) continue
+
+    for (let i = 0; i + phraseWords.length <= tokens.length; i++) {
+      const isMatch = phraseWords.every((word, offset) =>
+        tokens[i + offset][key] === word && tokens[i + offset].clause === tokens[i].clause
+      )
+      if (!isMatch) continue
+
+      const negated = isNegated(tokens, i)
+      if (negated && options.excludeNegated) continue
+      matches.push({ phrase, tokenIndex: i, negated })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Returns the distinct phrases that occur at least once, in phrase-list order
+ */
+export function matchPhrases(tokens: Token[], phrases: string[], options: MatchOptions = {}): string[] {
+  const found = new Set(findPhrases(tokens, phrases, options).map(match => match.phrase))
+  return phrases.filter(phrase => found.has(phrase))
+}
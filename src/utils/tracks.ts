@@ -0,0 +1,96 @@
+/**
+ * Learning Tracks
+ * Ordered challenge sequences with prerequisites, unlocked by passed attempts
+ */
+
+import type { AttemptRecord } from './attempts'
+import { getChallengePacks, type Challenge } from './challenges'
+
+export interface TrackStep {
+  id: string
+  challengeId: string
+  prerequisites: string[] // ids of earlier steps in the same track
+}
+
+export interface LearningTrack {
+  id: string
+  title: string
+  credential: string // category minted once every step is passed
+  steps: TrackStep[]
+}
+
+export type StepStatus = 'locked' | 'unlocked' | 'passed'
+
+export interface StepProgress {
+  step: TrackStep
+  status: StepStatus
+  missingPrerequisites: string[]
+}
+
+export interface TrackProgress {
+  track: LearningTrack
+  steps: StepProgress[]
+  passedCount: number
+  isComplete: boolean
+}
+
+export function getTracks(): LearningTrack[] {
+  return getChallengePacks().flatMap(pack => pack.tracks)
+}
+
+/**
+ * Works out which steps of a track are passed, unlocked or still locked
+ * @param passedChallengeIds Challenge ids the user has passed at least once
+ */
+export function getTrackProgress(track: LearningTrack, passedChallengeIds: Set<string>): TrackProgress {
+  const passedStepIds = new Set(
+    track.steps.filter(step => passedChallengeIds.has(step.challengeId)).map(step => step.id)
+  )
+
+  const steps = track.steps.map(step => {
+    const missingPrerequisites = step.prerequisites.filter(id => !passedStepIds.has(id))
+    const status: StepStatus = passedStepIds.has(step.id)
+      ? 'passed'
+      : missingPrerequisites.length === 0 ? 'unlocked' : 'locked'
+    return { step, status, missingPrerequisites }
+  })
+
+  return {
+    track,
+    steps,
+    passedCount: passedStepIds.size,
+    isComplete: passedStepIds.size === track.steps.length,
+  }
+}
+
+/**
+ * Scores a completed track by its weakest step: the lowest of each step's best passing score
+ * @returns null while any step is unpassed
+ */
+export function getTrackScore(track: LearningTrack, attempts: Pick<AttemptRecord, 'challengeId' | 'score' | 'passed'>[]): number | null {
+  let lowest = 100
+  for (const step of track.steps) {
+    const scores = attempts
+      .filter(attempt => attempt.passed && attempt.challengeId === step.challengeId)
+      .map(attempt => attempt.score)
+    if (scores.length === 0) return null
+    lowest = Math.min(lowest, Math.max(...scores))
+  }
+  return lowest
+}
+
+/**
+ * Filters out challenges that only appear in locked track steps.
+ * Challenges that belong to no track are always available.
+ */
+export function getUnlockedChallenges(challenges: Challenge[], passedChallengeIds: Set<string>): Challenge[] {
+  const availability = new Map<string, boolean>()
+
+  for (const track of getTracks()) {
+    for (const { step, status } of getTrackProgress(track, passedChallengeIds).steps) {
+      availability.set(step.challengeId, availability.get(step.challengeId) || status !== 'locked')
+    }
+  }
+
+  return challenges.filter(challenge => availability.get(challenge.id) ?? true)
+}
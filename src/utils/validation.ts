@@ -2,201 +2,556 @@
  * Answer Validation and Scoring Utilities
  */
 
+import { tokenize, matchPhrases } from './text'
+import { parseEmail, isWellFormedSalutation, type ParsedEmail } from './email'
+import { computeMetrics, scoreMetrics, type MetricWeights, type TextMetrics } from './metrics'
+
+/**
+ * The outcome of one rubric criterion: points earned out of points possible,
+ * the phrases found in the answer, and the missing elements that cost points
+ */
+export interface CriterionResult {
+  id: string
+  label: string
+  earned: number
+  possible: number
+  matched: string[]
+  missing: string[]
+}
+
 export interface ValidationResult {
   score: number
   passed: boolean
   feedback: string
+  rubric: CriterionResult[]
+  email?: ParsedEmail // sections the email scorer recognized, shown back to the learner
   details?: {
     lengthScore: number
     professionalismScore: number
     grammarScore: number
   }
+  gradeToken?: string // signed by the grading service; absent when scored in the browser
+}
+
+/**
+ * Thresholds shared by every scorer plus a scorer-specific rubric
+ */
+export interface ScorerConfig<TRubric> {
+  passThreshold: number
+  excellentThreshold: number
+  minLength: number
+  idealLength: number
+  rubric: TRubric
+  metrics?: MetricWeights // optional readability/style criteria, see metrics.ts
+}
+
+/**
+ * Threshold overrides a challenge pack may apply on top of a scorer's defaults
+ */
+export type ScorerOverrides = Partial<Pick<ScorerConfig<unknown>, 'passThreshold' | 'excellentThreshold' | 'minLength' | 'idealLength'>>
+
+/**
+ * A registered scorer: a scoring function together with its own config
+ */
+export interface Scorer<TRubric = unknown> {
+  type: string
+  config: ScorerConfig<TRubric>
+  score: (answer: string, config: ScorerConfig<TRubric>, prompt: string) => ValidationResult
+}
+
+const scorers = new Map<string, Scorer>()
+
+/**
+ * Registers a scorer under its type. Challenges reference scorers by this type.
+ * @throws if a scorer with the same type is already registered
+ */
+export function registerScorer<TRubric>(scorer: Scorer<TRubric>): void {
+  if (scorers.has(scorer.type)) {
+    throw new Error(`Scorer "${scorer.type}" is already registered`)
+  }
+  scorers.set(scorer.type, scorer as unknown as Scorer)
+}
+
+/**
+ * Looks up a registered scorer
+ * @throws if no scorer is registered for the type
+ */
+export function getScorer(type: string): Scorer {
+  const scorer = scorers.get(type)
+  if (!scorer) {
+    throw new Error(
+      `Unknown scorer type "${type}". Registered scorers: ${Array.from(scorers.keys()).join(', ')}`
+    )
+  }
+  return scorer
+}
+
+export function hasScorer(type: string): boolean {
+  return scorers.has(type)
+}
+
+/**
+ * Verifies that every challenge declares a registered scorer.
+ * Called when challenges are loaded so a typo fails at startup instead of
+ * silently scoring with the wrong rubric.
+ * @throws listing every challenge with an unknown scorer type
+ */
+export function assertKnownScorers(challenges: { id: string; scorer: string }[]): void {
+  const unknown = challenges.filter(challenge => !scorers.has(challenge.scorer))
+  if (unknown.length > 0) {
+    const list = unknown.map(challenge => `${challenge.id} (${challenge.scorer})`).join(', ')
+    throw new Error(`Challenges reference unknown scorer types: ${list}`)
+  }
+}
+
+/**
+ * Totals the points earned across a rubric
+ */
+export function sumRubric(rubric: CriterionResult[]): number {
+  return rubric.reduce((total, criterion) => total + criterion.earned, 0)
+}
+
+/**
+ * Builds the single-criterion rubric returned when an answer is below the minimum length
+ */
+function tooShortRubric(length: number, minLength: number, possible: number): CriterionResult[] {
+  return [{
+    id: 'length',
+    label: 'Length',
+    earned: 0,
+    possible,
+    matched: [],
+    missing: [`Write at least ${minLength} characters (currently ${length})`],
+  }]
+}
+
+function lengthCriterion(length: number, idealLength: number, possible: number): CriterionResult {
+  const earned = length >= idealLength ? possible : Math.floor((length / idealLength) * possible)
+  return {
+    id: 'length',
+    label: 'Length',
+    earned,
+    possible,
+    matched: [],
+    missing: earned < possible ? [`Expand your answer to about ${idealLength} characters (currently ${length})`] : [],
+  }
+}
+
+function metricCriteria(metrics: TextMetrics, weights: MetricWeights | undefined): CriterionResult[] {
+  return weights ? scoreMetrics(metrics, weights) : []
+}
+
+function formatExamples(phrases: string[], limit: number = 3): string {
+  return phrases.slice(0, limit).map(phrase => `"${phrase}"`).join(', ')
+}
+
+/**
+ * Returns a scorer's config with a challenge's threshold overrides applied
+ */
+export function resolveScorerConfig(scorerType: string, overrides: ScorerOverrides = {}): ScorerConfig<unknown> {
+  return { ...getScorer(scorerType).config, ...overrides }
+}
+
+/**
+ * Scores an answer with the scorer registered for `scorerType`
+ */
+export function scoreAnswer(
+  scorerType: string,
+  answer: string,
+  prompt: string = '',
+  overrides: ScorerOverrides = {}
+): ValidationResult {
+  const scorer = getScorer(scorerType)
+  return scorer.score(answer, resolveScorerConfig(scorerType, overrides), prompt)
 }
 
 /**
  * Validates and scores a user's answer
  */
-export function validateAnswer(answer: string, _prompt: string, _challengeType: string = 'email'): ValidationResult {
+export function validateAnswer(answer: string, prompt: string, challengeType: string = 'email'): ValidationResult {
+  return scoreAnswer(challengeType, answer, prompt)
+}
+
+/**
+ * Validates presentation-style answers
+ */
+export function validatePresentation(answer: string): ValidationResult {
+  return scoreAnswer('presentation', answer)
+}
+
+/**
+ * Validates negotiation-style answers
+ */
+export function validateNegotiation(answer: string): ValidationResult {
+  return scoreAnswer('negotiation', answer)
+}
+
+// Email scorer
+
+export interface EmailRubric {
+  lengthPoints: number
+  professionalism: {
+    points: number
+    fallbackPoints: number
+    phrases: string[]
+    exactPhrases: string[] // matched by surface form, since they share a stem ("regards", "regarding")
+  }
+  casualLanguage: { points: number; penaltyPerMatch: number; phrases: string[] }
+  structure: { salutationPoints: number; bodyPoints: number; closingPoints: number; signaturePoints: number }
+}
+
+function scoreEmail(answer: string, config: ScorerConfig<EmailRubric>): ValidationResult {
+  const { rubric } = config
   const trimmed = answer.trim()
-  const lowerAnswer = trimmed.toLowerCase()
-  
-  let score = 0
+  const tokens = tokenize(trimmed)
+
   const details = {
     lengthScore: 0,
     professionalismScore: 0,
     grammarScore: 0,
   }
-  
+
   let feedback = ''
-  
-  // Length check (20% of score)
-  const minLength = 20
-  const idealLength = 50
-  if (trimmed.length < minLength) {
+
+  // Length check
+  if (trimmed.length < config.minLength) {
     feedback = 'Your response is too short. Professional communications should be more detailed.'
-    return { score: 0, passed: false, feedback, details }
+    const lengthRubric = tooShortRubric(trimmed.length, config.minLength, rubric.lengthPoints)
+    return { score: 0, passed: false, feedback, rubric: lengthRubric, details }
   }
-  
-  if (trimmed.length >= idealLength) {
-    details.lengthScore = 20
-    score += 20
-  } else {
-    details.lengthScore = Math.floor((trimmed.length / idealLength) * 20)
-    score += details.lengthScore
-  }
-  
-  // Professional indicators (40% of score)
-  const professionalIndicators = [
-    'dear', 'regards', 'sincerely', 'thank you', 'please', 'appreciate',
-    'would', 'could', 'apologize', 'apology', 'regarding', 'concerning',
-    'respectfully', 'best', 'kind regards', 'yours truly'
+
+  const length = lengthCriterion(trimmed.length, config.idealLength, rubric.lengthPoints)
+  details.lengthScore = length.earned
+
+  // Professional indicators
+  const professionalMatches = [
+    ...matchPhrases(tokens, rubric.professionalism.phrases, { excludeNegated: true }),
+    ...matchPhrases(tokens, rubric.professionalism.exactPhrases, { excludeNegated: true, exact: true }),
   ]
-  
-  const hasProfessionalIndicators = professionalIndicators.some(indicator => 
-    lowerAnswer.includes(indicator)
-  )
-  
-  if (hasProfessionalIndicators) {
-    details.professionalismScore = 40
-    score += 40
-  } else {
-    details.professionalismScore = 20
-    score += 20
-  }
-  
-  // Avoids casual language (30% of score)
-  const casualWords = ['hey', 'hi', 'thx', 'u ', 'ur ', 'asap', 'maybe', 'sorry', 
-    'yo', 'waste', 'cancel', 'just', 'gonna', 'wanna']
-  const hasCasualWords = casualWords.some(word => lowerAnswer.includes(word))
-  
-  if (!hasCasualWords) {
-    details.grammarScore = 30
-    score += 30
-  } else {
-    const casualWordCount = casualWords.filter(word => lowerAnswer.includes(word)).length
-    details.grammarScore = Math.max(0, 30 - (casualWordCount * 10))
-    score += details.grammarScore
-  }
-  
-  // Bonus points for structure (10% bonus)
-  const hasGreeting = lowerAnswer.includes('dear') || lowerAnswer.includes('hello') || lowerAnswer.includes('good')
-  const hasClosing = lowerAnswer.includes('regards') || lowerAnswer.includes('sincerely') || lowerAnswer.includes('best')
-  
-  if (hasGreeting && hasClosing) {
-    score += 10
-  }
-  
+  const professionalism: CriterionResult = {
+    id: 'professionalism',
+    label: 'Professional tone',
+    earned: professionalMatches.length > 0
+      ? rubric.professionalism.points
+      : rubric.professionalism.fallbackPoints,
+    possible: rubric.professionalism.points,
+    matched: professionalMatches,
+    missing: professionalMatches.length > 0
+      ? []
+      : [`Use courteous phrasing such as ${formatExamples(['please', 'thank you', 'I apologize'])}`],
+  }
+  details.professionalismScore = professionalism.earned
+
+  // Avoids casual language
+  const casualMatches = matchPhrases(tokens, rubric.casualLanguage.phrases)
+  const casualLanguage: CriterionResult = {
+    id: 'casualLanguage',
+    label: 'Avoids casual language',
+    earned: Math.max(
+      0,
+      rubric.casualLanguage.points - (casualMatches.length * rubric.casualLanguage.penaltyPerMatch)
+    ),
+    possible: rubric.casualLanguage.points,
+    matched: casualMatches,
+    missing: casualMatches.map(word => `Replace casual wording "${word}"`),
+  }
+  details.grammarScore = casualLanguage.earned
+
+  // Bonus points for structure: salutation, body, closing and signature in that order
+  const email = parseEmail(trimmed)
+  const structure = scoreEmailStructure(email, rubric.structure)
+
+  const criteria = [
+    length,
+    professionalism,
+    casualLanguage,
+    structure,
+    ...metricCriteria(computeMetrics(trimmed), config.metrics),
+  ]
+
   // Cap at 100
-  score = Math.min(100, score)
-  
-  const passed = score >= 60
-  
+  const score = Math.min(100, sumRubric(criteria))
+
+  const passed = score >= config.passThreshold
+
   if (!passed) {
     feedback = 'Try using more formal language, proper greetings, complete sentences, and professional closings.'
-  } else if (score >= 80) {
+  } else if (score >= config.excellentThreshold) {
     feedback = 'Excellent! Your email demonstrates strong professional communication skills.'
   } else {
     feedback = 'Good job! Your email is professional, though there\'s room for improvement in formality and structure.'
   }
-  
-  return { score, passed, feedback, details }
+
+  return { score, passed, feedback, rubric: criteria, email, details }
 }
 
-/**
- * Validates presentation-style answers
- */
-export function validatePresentation(answer: string): ValidationResult {
+function scoreEmailStructure(email: ParsedEmail, points: EmailRubric['structure']): CriterionResult {
+  let earned = 0
+  const matched: string[] = []
+  const missing: string[] = []
+
+  if (!email.salutation) {
+    missing.push('Open with a salutation such as "Dear Ms. Lee,"')
+  } else if (!isWellFormedSalutation(email.salutation)) {
+    missing.push(`Address the recipient and end the salutation with a comma, e.g. "Dear Ms. Lee," instead of "${email.salutation}"`)
+  } else {
+    earned += points.salutationPoints
+    matched.push(email.salutation)
+  }
+
+  const hasBody = email.body.some(paragraph => paragraph.split(/\s+/).length >= 5)
+  if (hasBody) {
+    earned += points.bodyPoints
+  } else {
+    missing.push('Add a body of at least one full sentence between the salutation and the closing')
+  }
+
+  if (email.closing) {
+    earned += points.closingPoints
+    matched.push(email.closing)
+  } else if (email.misplacedClosing) {
+    missing.push(`Move "${email.misplacedClosing}" to the end: the closing should come last, followed only by your name`)
+  } else {
+    missing.push('End with a closing such as "Kind regards,"')
+  }
+
+  if (email.signature) {
+    earned += points.signaturePoints
+    matched.push(email.signature)
+  } else {
+    missing.push(email.closing ? `Sign your name after "${email.closing}"` : 'Sign your name after the closing')
+  }
+
+  return {
+    id: 'structure',
+    label: 'Email structure',
+    earned,
+    possible: points.salutationPoints + points.bodyPoints + points.closingPoints + points.signaturePoints,
+    matched,
+    missing,
+  }
+}
+
+registerScorer<EmailRubric>({
+  type: 'email',
+  config: {
+    passThreshold: 60,
+    excellentThreshold: 80,
+    minLength: 20,
+    idealLength: 50,
+    rubric: {
+      lengthPoints: 20,
+      professionalism: {
+        points: 40,
+        fallbackPoints: 20,
+        phrases: [
+          'dear', 'sincerely', 'thank you', 'please', 'appreciate',
+          'would', 'could', 'apologize', 'apology', 'concerning',
+          'respectfully', 'best', 'yours truly',
+        ],
+        exactPhrases: ['regards', 'kind regards', 'regarding'],
+      },
+      casualLanguage: {
+        points: 30,
+        penaltyPerMatch: 10,
+        phrases: ['hey', 'hi', 'thx', 'u', 'ur', 'asap', 'maybe', 'sorry',
+          'yo', 'waste', 'cancel', 'just', 'gonna', 'wanna'],
+      },
+      structure: {
+        salutationPoints: 3,
+        bodyPoints: 2,
+        closingPoints: 3,
+        signaturePoints: 2,
+      },
+    },
+  },
+  score: scoreEmail,
+})
+
+// Presentation scorer
+
+export interface PresentationRubric {
+  lengthPoints: number
+  engagement: { points: number; fallbackPoints: number; phrases: string[] }
+  clarity: { points: number; fallbackPoints: number; minSentences: number }
+}
+
+function scorePresentation(answer: string, config: ScorerConfig<PresentationRubric>): ValidationResult {
+  const { rubric } = config
   const trimmed = answer.trim()
-  const minLength = 30
-  
-  if (trimmed.length < minLength) {
+
+  if (trimmed.length < config.minLength) {
     return {
       score: 0,
       passed: false,
       feedback: 'Your introduction is too short. Aim for 2-3 engaging sentences.',
+      rubric: tooShortRubric(trimmed.length, config.minLength, rubric.lengthPoints),
     }
   }
-  
-  let score = 0
-  
-  // Length (30%)
-  if (trimmed.length >= 50) {
-    score += 30
-  } else {
-    score += Math.floor((trimmed.length / 50) * 30)
-  }
-  
-  // Engagement (40%)
-  const engagingWords = ['excited', 'proud', 'innovative', 'transform', 'revolutionary', 'breakthrough']
-  const hasEngagingWords = engagingWords.some(word => trimmed.toLowerCase().includes(word))
-  if (hasEngagingWords) {
-    score += 40
-  } else {
-    score += 20
+
+  // Length
+  const length = lengthCriterion(trimmed.length, config.idealLength, rubric.lengthPoints)
+  const metrics = computeMetrics(trimmed)
+
+  // Engagement
+  const engagingMatches = matchPhrases(tokenize(trimmed), rubric.engagement.phrases, { excludeNegated: true })
+  const engagement: CriterionResult = {
+    id: 'engagement',
+    label: 'Engaging language',
+    earned: engagingMatches.length > 0 ? rubric.engagement.points : rubric.engagement.fallbackPoints,
+    possible: rubric.engagement.points,
+    matched: engagingMatches,
+    missing: engagingMatches.length > 0
+      ? []
+      : [`Open warmly with wording such as ${formatExamples(rubric.engagement.phrases)}`],
   }
-  
-  // Clarity (30%)
-  const hasClearStructure = trimmed.split('.').length >= 2
-  if (hasClearStructure) {
-    score += 30
-  } else {
-    score += 15
+
+  // Clarity
+  const hasClearStructure = metrics.sentenceCount >= rubric.clarity.minSentences
+  const clarity: CriterionResult = {
+    id: 'clarity',
+    label: 'Clear structure',
+    earned: hasClearStructure ? rubric.clarity.points : rubric.clarity.fallbackPoints,
+    possible: rubric.clarity.points,
+    matched: [`${metrics.sentenceCount} ${metrics.sentenceCount === 1 ? 'sentence' : 'sentences'}`],
+    missing: hasClearStructure
+      ? []
+      : [`Split your introduction into at least ${rubric.clarity.minSentences} sentences`],
   }
-  
-  const passed = score >= 60
+
+  const criteria = [length, engagement, clarity, ...metricCriteria(metrics, config.metrics)]
+  const score = sumRubric(criteria)
+
+  const passed = score >= config.passThreshold
   const feedback = passed
-    ? 'Great introduction! It\'s engaging and well-structured.'
-    : 'Try to make your introduction more engaging and clear. Use action words and structure it well.'
-  
-  return { score, passed, feedback }
+    ? 'Great introduction! It\'s clear and well-structured.'
+    : 'Try to make your introduction clearer. Use short, plain sentences and avoid repeating yourself.'
+
+  return { score, passed, feedback, rubric: criteria }
 }
 
-/**
- * Validates negotiation-style answers
- */
-export function validateNegotiation(answer: string): ValidationResult {
+registerScorer<PresentationRubric>({
+  type: 'presentation',
+  config: {
+    passThreshold: 60,
+    excellentThreshold: 80,
+    minLength: 30,
+    idealLength: 50,
+    rubric: {
+      lengthPoints: 20,
+      // A small share: a warm opening helps, but the writing itself carries the score
+      engagement: {
+        points: 5,
+        fallbackPoints: 0,
+        phrases: ['excited', 'proud', 'thrilled', 'delighted'],
+      },
+      clarity: { points: 15, fallbackPoints: 5, minSentences: 2 },
+    },
+    metrics: {
+      readability: { points: 22, minGrade: 6, maxGrade: 12 },
+      sentenceLength: { points: 16, maxAverage: 22 },
+      passiveVoice: { points: 5, maxRatio: 0.34 },
+      repetition: { points: 7, penaltyPerWord: 5 },
+      shouting: { points: 5, penaltyPerWord: 5 },
+      punctuation: { points: 5, penaltyPerRun: 3 },
+    },
+  },
+  score: scorePresentation,
+})
+
+// Negotiation scorer
+
+export interface NegotiationRubric {
+  lengthPoints: number
+  diplomacy: { points: number; pointsPerMatch: number; phrases: string[] }
+  position: { points: number; fallbackPoints: number; concession: string; holdingPhrases: string[] }
+}
+
+function scoreNegotiation(answer: string, config: ScorerConfig<NegotiationRubric>): ValidationResult {
+  const { rubric } = config
   const trimmed = answer.trim()
-  const minLength = 40
-  
-  if (trimmed.length < minLength) {
+  const tokens = tokenize(trimmed)
+
+  if (trimmed.length < config.minLength) {
     return {
       score: 0,
       passed: false,
       feedback: 'Your response is too short. Negotiation requires detailed, diplomatic communication.',
+      rubric: tooShortRubric(trimmed.length, config.minLength, rubric.lengthPoints),
     }
   }
-  
-  let score = 0
-  
-  // Length (25%)
-  if (trimmed.length >= 80) {
-    score += 25
-  } else {
-    score += Math.floor((trimmed.length / 80) * 25)
-  }
-  
-  // Diplomacy (40%)
-  const diplomaticWords = ['understand', 'appreciate', 'value', 'consider', 'explore', 'alternative', 'flexible']
-  const diplomaticCount = diplomaticWords.filter(word => trimmed.toLowerCase().includes(word)).length
-  score += Math.min(40, diplomaticCount * 10)
-  
-  // Maintains position (35%)
-  const maintainsPosition = !trimmed.toLowerCase().includes('discount') || 
-    trimmed.toLowerCase().includes('cannot') || 
-    trimmed.toLowerCase().includes('unable') ||
-    trimmed.toLowerCase().includes('alternative')
-  
-  if (maintainsPosition) {
-    score += 35
-  } else {
-    score += 15
+
+  // Length
+  const length = lengthCriterion(trimmed.length, config.idealLength, rubric.lengthPoints)
+
+  // Diplomacy
+  const diplomaticMatches = matchPhrases(tokens, rubric.diplomacy.phrases, { excludeNegated: true })
+  const diplomacyEarned = Math.min(rubric.diplomacy.points, diplomaticMatches.length * rubric.diplomacy.pointsPerMatch)
+  const unusedDiplomatic = rubric.diplomacy.phrases.filter(word => !diplomaticMatches.includes(word))
+  const diplomacy: CriterionResult = {
+    id: 'diplomacy',
+    label: 'Diplomatic language',
+    earned: diplomacyEarned,
+    possible: rubric.diplomacy.points,
+    matched: diplomaticMatches,
+    missing: diplomacyEarned < rubric.diplomacy.points
+      ? [`Acknowledge the client with wording such as ${formatExamples(unusedDiplomatic)}`]
+      : [],
   }
-  
-  const passed = score >= 60
+
+  // Maintains position
+  // "we cannot offer a discount" refuses the concession rather than granting it
+  const mentionsConcession = matchPhrases(tokens, [rubric.position.concession], { excludeNegated: true }).length > 0
+  const holdingMatches = matchPhrases(tokens, rubric.position.holdingPhrases)
+  const maintainsPosition = !mentionsConcession || holdingMatches.length > 0
+  const position: CriterionResult = {
+    id: 'position',
+    label: 'Maintains your position',
+    earned: maintainsPosition ? rubric.position.points : rubric.position.fallbackPoints,
+    possible: rubric.position.points,
+    matched: holdingMatches,
+    missing: maintainsPosition
+      ? []
+      : [`You mention a ${rubric.position.concession} without holding firm: say what you ${formatExamples(rubric.position.holdingPhrases, 2)} do, or offer an alternative`],
+  }
+
+  const criteria = [length, diplomacy, position, ...metricCriteria(computeMetrics(trimmed), config.metrics)]
+  const score = sumRubric(criteria)
+
+  const passed = score >= config.passThreshold
   const feedback = passed
     ? 'Excellent negotiation response! You maintained your position while being diplomatic.'
     : 'Try to be more diplomatic while clearly maintaining your pricing position. Offer alternatives when possible.'
-  
-  return { score, passed, feedback }
+
+  return { score, passed, feedback, rubric: criteria }
 }
 
+registerScorer<NegotiationRubric>({
+  type: 'negotiation',
+  config: {
+    passThreshold: 60,
+    excellentThreshold: 80,
+    minLength: 40,
+    idealLength: 80,
+    rubric: {
+      lengthPoints: 20,
+      diplomacy: {
+        points: 30,
+        pointsPerMatch: 10,
+        phrases: ['understand', 'appreciate', 'value', 'consider', 'explore', 'alternative', 'flexible'],
+      },
+      position: {
+        points: 30,
+        fallbackPoints: 10,
+        concession: 'discount',
+        holdingPhrases: ['cannot', 'unable', 'alternative'],
+      },
+    },
+    metrics: {
+      readability: { points: 10, minGrade: 6, maxGrade: 14 },
+      shouting: { points: 5, penaltyPerWord: 5 },
+      punctuation: { points: 5, penaltyPerRun: 3 },
+    },
+  },
+  score: scoreNegotiation,
+})
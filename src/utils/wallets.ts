@@ -0,0 +1,117 @@
+/**
+ * Wallet Resolution
+ * Collects the wallets a user can mint with, in order of preference: the
+ * Farcaster client's built-in wallet, then external wallets connected through
+ * Privy, then the Privy embedded wallet
+ */
+
+import sdk from '@farcaster/miniapp-sdk'
+import type { ConnectedWallet } from '@privy-io/react-auth'
+import type { custom } from 'viem'
+
+export type WalletSource = 'farcaster' | 'external' | 'privy'
+
+export type WalletProvider = Parameters<typeof custom>[0]
+
+export interface WalletOption {
+  id: string // `${source}:${lowercased address}`, stable across reloads
+  source: WalletSource
+  address: `0x${string}`
+  label: string // e.g. "Farcaster wallet" or "MetaMask"
+  getProvider(): Promise<WalletProvider>
+}
+
+const PREFERRED_WALLET_KEY = 'skul:wallet'
+const SOURCE_ORDER: WalletSource[] = ['farcaster', 'external', 'privy']
+
+function createWalletOption(
+  source: WalletSource,
+  address: string,
+  label: string,
+  getProvider: () => Promise<WalletProvider>
+): WalletOption {
+  return {
+    id: `${source}:${address.toLowerCase()}`,
+    source,
+    address: address as `0x${string}`,
+    label,
+    getProvider,
+  }
+}
+
+/**
+ * Returns the Farcaster client's wallet when running as a mini app
+ * @returns null outside a Farcaster client, or if the client has no wallet
+ */
+export async function getFarcasterWallet(): Promise<WalletOption | null> {
+  try {
+    if (!(await sdk.isInMiniApp())) return null
+
+    const provider = await sdk.wallet.getEthereumProvider()
+    if (!provider) return null
+
+    // The client's own wallet is already connected, so this doesn't prompt
+    const [address] = await provider.request({ method: 'eth_requestAccounts' })
+    if (!address) return null
+
+    return createWalletOption('farcaster', address, 'Farcaster wallet', async () => provider)
+  } catch (error) {
+    console.error('Failed to get the Farcaster wallet:', error)
+    return null
+  }
+}
+
+/**
+ * Turns Privy's connected wallets into wallet options
+ */
+export function getPrivyWalletOptions(wallets: ConnectedWallet[]): WalletOption[] {
+  return wallets.map((wallet) => {
+    const embedded = wallet.walletClientType === 'privy'
+    return createWalletOption(
+      embedded ? 'privy' : 'external',
+      wallet.address,
+      embedded ? 'Privy wallet' : wallet.meta.name,
+      () => wallet.getEthereumProvider()
+    )
+  })
+}
+
+/**
+ * Orders wallets by preference (Farcaster, external, Privy), keeping only the
+ * first option for an address that is reachable more than one way
+ */
+export function resolveWallets(options: WalletOption[]): WalletOption[] {
+  const seen = new Set<string>()
+  return [...options]
+    .sort((a, b) => SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source))
+    .filter((option) => {
+      const address = option.address.toLowerCase()
+      if (seen.has(address)) return false
+      seen.add(address)
+      return true
+    })
+}
+
+/**
+ * Picks the wallet to use: the one the user chose, if it's still available,
+ * otherwise the most preferred
+ */
+export function pickWallet(options: WalletOption[], preferredId: string | null): WalletOption | null {
+  return options.find(option => option.id === preferredId) ?? options[0] ?? null
+}
+
+export function loadPreferredWalletId(): string | null {
+  try {
+    return localStorage.getItem(PREFERRED_WALLET_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function savePreferredWalletId(id: string): void {
+  try {
+    localStorage.setItem(PREFERRED_WALLET_KEY, id)
+  } catch (error) {
+    console.error('Failed to save wallet choice:', error)
+  }
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createGradeToken, verifyGradeToken, type GradeClaims } from '../server/gradeToken'
+import { createIssuer, type AttestationRequest } from '../src/utils/attestation'
+import { digestAnswer } from '../src/utils/badge'
+import type { Challenge } from '../src/utils/challenges'
+
+const SECRET = 'test-secret'
+
+const CHALLENGE: Challenge = {
+  id: 'negotiation-llm',
+  title: 'Hold your price',
+  category: 'Negotiation',
+  prompt: 'A client asks for a 30% discount.',
+  placeholder: '',
+  instructions: 'Decline politely and offer an alternative.',
+  scorer: 'negotiation',
+  grader: 'llm',
+  packId: 'test',
+  locale: 'en',
+}
+
+// Too short for the rules to pass, but an LLM grader may
+const REQUEST: AttestationRequest = {
+  user: privateKeyToAccount(generatePrivateKey()).address,
+  fid: 7,
+  challengeId: CHALLENGE.id,
+  answer: 'No discount, sorry.',
+  timestamp: Date.now(),
+}
+
+const token = (overrides: Partial<GradeClaims> = {}) => {
+  const iat = Math.floor(Date.now() / 1000)
+  return createGradeToken({
+    fid: REQUEST.fid,
+    challengeId: CHALLENGE.id,
+    answerDigest: digestAnswer(REQUEST.answer),
+    score: 85,
+    passed: true,
+    grader: 'llm',
+    iat,
+    exp: iat + 60,
+    ...overrides,
+  }, SECRET)
+}
+
+describe('issuer', () => {
+  const createTestIssuer = () => createIssuer({
+    account: privateKeyToAccount(generatePrivateKey()),
+    registryAddress: '0x0000000000000000000000000000000000000001',
+    chainId: 31337,
+    lookupChallenge: id => (id === CHALLENGE.id ? CHALLENGE : undefined),
+    verifyGradeToken: gradeToken => verifyGradeToken(gradeToken, SECRET),
+  })
+  const issuer = createTestIssuer()
+
+  it('re-scores with the rules without a grade token', async () => {
+    await assert.rejects(issuer.attest(REQUEST), /did not pass/)
+  })
+
+  it("attests the grade token's score", async () => {
+    const attestation = await issuer.attest({ ...REQUEST, gradeToken: token() })
+    assert.equal(attestation.score, 85)
+    assert.equal(attestation.fid, REQUEST.fid)
+  })
+
+  it('refuses a failing grade', async () => {
+    await assert.rejects(issuer.attest({ ...REQUEST, gradeToken: token({ score: 40, passed: false }) }), /did not pass/)
+  })
+
+  it('refuses a grade token for another FID, challenge or answer', async () => {
+    for (const gradeToken of [
+      token({ fid: 8 }),
+      token({ challengeId: 'email-1' }),
+      token({ answerDigest: digestAnswer('Something else') }),
+    ]) {
+      await assert.rejects(issuer.attest({ ...REQUEST, gradeToken }), /grade token/)
+    }
+  })
+
+  it('refuses a forged or expired grade token', async () => {
+    const forged = createGradeToken(JSON.parse(Buffer.from(token().split('.')[0], 'base64url').toString()), 'other-secret')
+    await assert.rejects(issuer.attest({ ...REQUEST, gradeToken: forged }), /grade token/)
+    await assert.rejects(issuer.attest({ ...REQUEST, gradeToken: token({ exp: 1 }) }), /grade token/)
+  })
+
+  it('refuses a timestamp far from now', async () => {
+    const request = { ...REQUEST, gradeToken: token() }
+    await assert.rejects(createTestIssuer().attest({ ...request, timestamp: Date.now() - 11 * 60 * 1000 }), /within 10 minutes/)
+    await assert.rejects(createTestIssuer().attest({ ...request, timestamp: Date.now() + 11 * 60 * 1000 }), /within 10 minutes/)
+  })
+
+  it('attests an answer once per wallet, as the same credential', async () => {
+    const once = createTestIssuer()
+    const request = { ...REQUEST, gradeToken: token() }
+    const first = await once.attest(request)
+
+    // A retry gets the same credential, with a fresh nonce
+    const retry = await once.attest(request)
+    assert.equal(retry.credentialHash, first.credentialHash)
+    assert.notEqual(retry.nonce, first.nonce)
+
+    await assert.rejects(once.attest({ ...request, timestamp: request.timestamp + 1 }), /already attested/)
+    await assert.rejects(once.attest({ ...request, fid: 8, gradeToken: token({ fid: 8 }) }), /already attested/)
+
+    // Another wallet may still earn it
+    const user = privateKeyToAccount(generatePrivateKey()).address
+    assert.equal((await once.attest({ ...request, user })).user, user)
+  })
+})
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { keccak256, stringToHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  getCredentials,
+  getCredentialTransactions,
+  SKUL_REGISTRY_ABI,
+  SKUL_REGISTRY_V2_ABI,
+  withCredentialTransactions,
+  type CredentialTransaction,
+  type OnchainCredential,
+} from '../src/utils/badge'
+import { connectHardhat, HARDHAT_KEYS, HARDHAT_RPC_URL, type Hardhat } from './hardhat'
+
+const hardhat = await connectHardhat()
+
+describe('withCredentialTransactions', () => {
+  const credential: OnchainCredential = { index: 0, fid: 7, skillName: 'Business English', completedAt: 1700000000 }
+  const transaction: CredentialTransaction = { txHash: keccak256(stringToHex('a')), fid: 7, skillName: 'Business English', timestamp: 1700000000 }
+
+  it('leaves a credential without its log unlinked', () => {
+    const hash = keccak256(stringToHex('credential'))
+    const [linked] = withCredentialTransactions([{ ...credential, credentialHash: hash }], [
+      { ...transaction, credentialHash: keccak256(stringToHex('other')) },
+    ])
+    assert.equal(linked.txHash, undefined)
+  })
+
+  it("doesn't guess between v1 logs that look alike", () => {
+    const [linked] = withCredentialTransactions([credential], [transaction, { ...transaction, txHash: keccak256(stringToHex('b')) }])
+    assert.equal(linked.txHash, undefined)
+  })
+})
+
+describe('credential transactions', { skip: !hardhat && `no Hardhat node at ${HARDHAT_RPC_URL}` }, () => {
+  const { publicClient, deploy, walletClient } = hardhat as Hardhat
+  const user = privateKeyToAccount(HARDHAT_KEYS[2]).address
+
+  const load = async (registry: `0x${string}`, fromBlock: number) =>
+    withCredentialTransactions(
+      await getCredentials(user, registry, publicClient),
+      await getCredentialTransactions(user, registry, fromBlock, publicClient)
+    )
+
+  it('links each v2 credential to the transaction that issued it', async () => {
+    const registry = await deploy('SkulRegistryV2', ['0x0000000000000000000000000000000000000000'])
+    const hashes: `0x${string}`[] = []
+    for (const challengeId of ['email-1', 'email-2', 'email-3']) {
+      const hash = await walletClient(HARDHAT_KEYS[2]).writeContract({
+        address: registry,
+        abi: SKUL_REGISTRY_V2_ABI,
+        functionName: 'issueCredential',
+        args: [7n, 'Business English', challengeId, 90, keccak256(stringToHex(`${challengeId}:${Math.random()}`))],
+      })
+      hashes.push((await publicClient.waitForTransactionReceipt({ hash })).transactionHash)
+    }
+
+    assert.deepEqual((await load(registry, 0)).map(credential => credential.txHash), hashes)
+
+    // Logs read from after the first mint don't shift the others onto the wrong cards
+    const afterFirst = Number((await publicClient.getTransactionReceipt({ hash: hashes[0] })).blockNumber) + 1
+    assert.deepEqual((await load(registry, afterFirst)).map(credential => credential.txHash), [undefined, ...hashes.slice(1)])
+  })
+
+  it('links v1 credentials by their FID, skill and time', async () => {
+    const registry = await deploy('SkulRegistry')
+    const hashes: `0x${string}`[] = []
+    for (const skillName of ['Business English', 'Negotiation']) {
+      const hash = await walletClient(HARDHAT_KEYS[2]).writeContract({
+        address: registry,
+        abi: SKUL_REGISTRY_ABI,
+        functionName: 'issueCredential',
+        args: [7n, skillName],
+      })
+      hashes.push((await publicClient.waitForTransactionReceipt({ hash })).transactionHash)
+    }
+
+    const afterFirst = Number((await publicClient.getTransactionReceipt({ hash: hashes[0] })).blockNumber) + 1
+    assert.deepEqual((await load(registry, afterFirst)).map(credential => credential.txHash), [undefined, hashes[1]])
+  })
+})
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { createLlmGrader, createRemoteGrader, createRuleBasedGrader, type GradeRequest } from '../src/utils/grader'
+
+type Reply = { status: number; body: unknown; delayMs?: number }
+
+const REQUEST: GradeRequest = {
+  scorer: 'negotiation',
+  prompt: 'A client asks for a 30% discount.',
+  instructions: 'Decline politely and offer an alternative.',
+  answer: 'I understand your budget concerns, but we cannot lower the price. We could explore a flexible payment plan instead.',
+  challengeId: 'negotiation-1',
+  fid: 7,
+}
+
+const completion = (content: string): Reply => ({ status: 200, body: { choices: [{ message: { content } }] } })
+
+const GRADE = {
+  score: 82,
+  feedback: 'Polite and firm.',
+  rubric: [
+    { id: 'tone', label: 'Tone', earned: 42, possible: 50, matched: ['understand'], missing: [] },
+    { id: 'position', label: 'Position', earned: 40, possible: 50, matched: [], missing: ['Name the alternative'] },
+  ],
+}
+
+describe('graders against a mock server', () => {
+  let server: Server
+  let baseUrl: string
+  let reply: Reply
+  let received: { url?: string; headers: IncomingMessage['headers']; body: Record<string, unknown> }[]
+
+  before(async () => {
+    server = createServer((request, response) => {
+      const chunks: Buffer[] = []
+      request.on('data', (chunk: Buffer) => chunks.push(chunk))
+      request.on('end', () => {
+        received.push({ url: request.url, headers: request.headers, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) })
+        setTimeout(() => {
+          response.writeHead(reply.status, { 'Content-Type': 'application/json' })
+          response.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body))
+        }, reply.delayMs ?? 0)
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  beforeEach(() => {
+    received = []
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  describe('LLM grader', () => {
+    const rules = createRuleBasedGrader()
+
+    it('uses a well-formed reply', async () => {
+      reply = completion(`\`\`\`json\n${JSON.stringify(GRADE)}\n\`\`\``)
+      const result = await createLlmGrader({ baseUrl: `${baseUrl}/v1/`, model: 'test-model', apiKey: 'secret' }).grade(REQUEST)
+
+      assert.equal(result.score, 82)
+      assert.equal(result.passed, true)
+      assert.deepEqual(result.rubric.map(criterion => criterion.id), ['tone', 'position'])
+
+      const [call] = received
+      assert.equal(call.url, '/v1/chat/completions')
+      assert.equal(call.headers.authorization, 'Bearer secret')
+      assert.equal(call.body.model, 'test-model')
+    })
+
+    it('sends no Authorization header without a key', async () => {
+      reply = completion(JSON.stringify(GRADE))
+      await createLlmGrader({ baseUrl, model: 'test-model' }).grade(REQUEST)
+      assert.equal(received[0].headers.authorization, undefined)
+    })
+
+    it('falls back to the rules on an HTTP error', async () => {
+      reply = { status: 500, body: { error: 'boom' } }
+      const result = await createLlmGrader({ baseUrl, model: 'test-model' }).grade(REQUEST)
+      assert.deepEqual(result, await rules.grade(REQUEST))
+    })
+
+    it('falls back to the rules on a malformed reply', async () => {
+      reply = completion(JSON.stringify({ ...GRADE, score: 140 }))
+      const result = await createLlmGrader({ baseUrl, model: 'test-model' }).grade(REQUEST)
+      assert.deepEqual(result, await rules.grade(REQUEST))
+    })
+
+    it('falls back to the rules on a timeout', async () => {
+      reply = { ...completion(JSON.stringify(GRADE)), delayMs: 300 }
+      const result = await createLlmGrader({ baseUrl, model: 'test-model', timeoutMs: 50 }).grade(REQUEST)
+      assert.deepEqual(result, await rules.grade(REQUEST))
+    })
+  })
+
+  describe('remote grader', () => {
+    it("returns the service's result with its grade token", async () => {
+      reply = { status: 200, body: { result: { ...GRADE, passed: true }, gradeToken: 'token' } }
+      const result = await createRemoteGrader({ baseUrl }).grade(REQUEST)
+
+      assert.equal(result.gradeToken, 'token')
+      assert.equal(received[0].url, '/grade')
+      assert.deepEqual(received[0].body, { fid: 7, challengeId: 'negotiation-1', answer: REQUEST.answer })
+    })
+
+    it("throws the service's error without a fallback", async () => {
+      reply = { status: 429, body: { error: 'Too many requests' } }
+      await assert.rejects(createRemoteGrader({ baseUrl }).grade(REQUEST), /Too many requests/)
+    })
+
+    it('uses the fallback when the service fails', async () => {
+      reply = { status: 503, body: {} }
+      const rules = createRuleBasedGrader()
+      const result = await createRemoteGrader({ baseUrl, fallback: rules }).grade(REQUEST)
+      assert.deepEqual(result, await rules.grade(REQUEST))
+    })
+  })
+})
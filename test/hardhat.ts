@@ -0,0 +1,100 @@
+/**
+ * Hardhat Test Helpers
+ * Compiles the contracts with solc-js and deploys them to a local Hardhat
+ * node (`npx hardhat node`), at HARDHAT_RPC_URL if set
+ */
+
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { createPublicClient, createWalletClient, http, type Abi, type PublicClient } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { HARDHAT_LOCAL } from '../src/utils/chains'
+
+export const HARDHAT_RPC_URL = process.env.HARDHAT_RPC_URL || 'http://127.0.0.1:8545'
+
+// The node's first funded accounts, from its default mnemonic
+export const HARDHAT_KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+] as const
+
+export type ContractName = 'SkulRegistry' | 'SkulRegistryV2' | 'SkulBadge' | 'SkulAttestedRegistry' | 'SkulForwarder'
+
+interface CompiledContract {
+  abi: Abi
+  bytecode: `0x${string}`
+}
+
+let compiled: Record<string, CompiledContract> | null = null
+
+function compile(name: ContractName): CompiledContract {
+  if (!compiled) {
+    const solc = createRequire(import.meta.url)('solc')
+    const names: ContractName[] = ['SkulRegistry', 'SkulRegistryV2', 'SkulBadge', 'SkulAttestedRegistry', 'SkulForwarder']
+    const input = {
+      language: 'Solidity',
+      sources: Object.fromEntries(names.map(contract => [
+        `${contract}.sol`,
+        { content: readFileSync(new URL(`../contracts/${contract}.sol`, import.meta.url), 'utf8') },
+      ])),
+      settings: {
+        optimizer: { enabled: true, runs: 200 },
+        outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+      },
+    }
+
+    const output = JSON.parse(solc.compile(JSON.stringify(input)))
+    const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === 'error')
+    if (errors.length > 0) {
+      throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n'))
+    }
+
+    compiled = {}
+    for (const contract of names) {
+      const { abi, evm } = output.contracts[`${contract}.sol`][contract]
+      compiled[contract] = { abi, bytecode: `0x${evm.bytecode.object}` }
+    }
+  }
+  return compiled[name]
+}
+
+export interface Hardhat {
+  publicClient: PublicClient
+  rpc(method: string, params?: unknown[]): Promise<unknown>
+  deploy(name: ContractName, args?: unknown[], key?: `0x${string}`): Promise<`0x${string}`>
+  walletClient(key?: `0x${string}`): ReturnType<typeof createHardhatWalletClient>
+}
+
+function createHardhatWalletClient(key: `0x${string}`) {
+  return createWalletClient({ account: privateKeyToAccount(key), chain: HARDHAT_LOCAL, transport: http(HARDHAT_RPC_URL) })
+}
+
+/**
+ * Connects to the Hardhat node
+ * @returns null if no node answers, so tests can skip
+ */
+export async function connectHardhat(): Promise<Hardhat | null> {
+  const publicClient = createPublicClient({ chain: HARDHAT_LOCAL, transport: http(HARDHAT_RPC_URL, { retryCount: 0 }) })
+  try {
+    if ((await publicClient.getChainId()) !== HARDHAT_LOCAL.id) return null
+  } catch {
+    return null
+  }
+
+  const rpc = (method: string, params: unknown[] = []) =>
+    publicClient.request({ method, params } as never) as Promise<unknown>
+
+  return {
+    publicClient,
+    rpc,
+    async deploy(name, args = [], key = HARDHAT_KEYS[0]) {
+      const { abi, bytecode } = compile(name)
+      const hash = await createHardhatWalletClient(key).deployContract({ abi, bytecode, args })
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      return receipt.contractAddress!
+    },
+    walletClient: (key = HARDHAT_KEYS[0]) => createHardhatWalletClient(key),
+  }
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { keccak256, stringToHex } from 'viem'
+import { SKUL_REGISTRY_V2_ABI } from '../src/utils/badge'
+import { HARDHAT_LOCAL } from '../src/utils/chains'
+import { createCredentialIndexer, createMemoryStore, type CredentialIndexer } from '../src/utils/indexer'
+import { connectHardhat, HARDHAT_RPC_URL, type Hardhat } from './hardhat'
+
+const hardhat = await connectHardhat()
+
+describe('credential indexer', { skip: !hardhat && `no Hardhat node at ${HARDHAT_RPC_URL}` }, () => {
+  const { publicClient, rpc, deploy, walletClient } = hardhat as Hardhat
+  const indexers: CredentialIndexer[] = []
+  let registry: `0x${string}`
+  let fromBlock: number
+
+  const issue = async (fid: number, challengeId: string) => {
+    const hash = await walletClient().writeContract({
+      address: registry,
+      abi: SKUL_REGISTRY_V2_ABI,
+      functionName: 'issueCredential',
+      args: [BigInt(fid), 'Business English', challengeId, 90, keccak256(stringToHex(`${fid}:${challengeId}:${Math.random()}`))],
+    })
+    await publicClient.waitForTransactionReceipt({ hash })
+    return hash
+  }
+
+  // Syncs once: start() resolves after catching up, stop() ends the polling
+  const sync = async (indexer: CredentialIndexer) => {
+    await indexer.start()
+    indexer.stop()
+    return indexer.getCredentials()
+  }
+
+  const createIndexer = (store = createMemoryStore(), confirmations = 3) => {
+    const indexer = createCredentialIndexer({
+      contractAddress: registry,
+      chain: HARDHAT_LOCAL,
+      rpcUrl: HARDHAT_RPC_URL,
+      fromBlock,
+      store,
+      confirmations,
+      onError: (error) => assert.fail(error as Error),
+    })
+    indexers.push(indexer)
+    return indexer
+  }
+
+  before(async () => {
+    registry = await deploy('SkulRegistryV2', ['0x0000000000000000000000000000000000000000'])
+    fromBlock = Number(await publicClient.getBlockNumber())
+  })
+
+  after(() => indexers.forEach(indexer => indexer.stop()))
+
+  it('indexes a credential once its block is confirmed', async () => {
+    const hash = await issue(1, 'email-1')
+    const indexer = createIndexer()
+    assert.deepEqual(await sync(indexer), [])
+
+    await rpc('hardhat_mine', ['0x2'])
+    const [credential] = await sync(indexer)
+    assert.equal(credential.transactionHash, hash)
+    assert.equal(credential.fid, 1)
+    assert.equal(credential.challengeId, 'email-1')
+    assert.equal(credential.score, 90)
+  })
+
+  it('never indexes a credential a reorg removed', async () => {
+    const store = createMemoryStore()
+    const indexer = createIndexer(store)
+    const before = (await sync(indexer)).length
+
+    const snapshot = await rpc('evm_snapshot')
+    await issue(2, 'email-2')
+    await rpc('hardhat_mine', ['0x1'])
+    assert.equal((await sync(indexer)).length, before)
+
+    await rpc('evm_revert', [snapshot])
+    await rpc('hardhat_mine', ['0x5'])
+    assert.equal((await sync(indexer)).length, before)
+    assert.ok(store.load()!.credentials.every(credential => credential.fid !== 2))
+  })
+
+  it('resumes from the stored cursor', async () => {
+    const store = createMemoryStore()
+    const first = await sync(createIndexer(store))
+    const cursor = store.load()!.lastIndexedBlock
+
+    const hash = await issue(3, 'email-3')
+    const resumed = await sync(createIndexer(store, 1))
+    assert.equal(resumed.length, first.length + 1)
+    assert.equal(resumed.at(-1)!.transactionHash, hash)
+    assert.ok(store.load()!.lastIndexedBlock > cursor)
+  })
+})
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { encodeFunctionData, keccak256, stringToHex } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { getCredentials, SKUL_REGISTRY_V2_ABI } from '../src/utils/badge'
+import { HARDHAT_LOCAL } from '../src/utils/chains'
+import {
+  createRelayer,
+  FORWARD_REQUEST_TYPES,
+  getForwarderDomain,
+  SKUL_FORWARDER_ABI,
+  type SignedForwardRequest,
+} from '../src/utils/relayer'
+import { connectHardhat, HARDHAT_KEYS, HARDHAT_RPC_URL, type Hardhat } from './hardhat'
+
+const hardhat = await connectHardhat()
+
+describe('local relayer', { skip: !hardhat && `no Hardhat node at ${HARDHAT_RPC_URL}` }, () => {
+  const { publicClient, rpc, deploy, walletClient } = hardhat as Hardhat
+  let forwarder: `0x${string}`
+  let registry: `0x${string}`
+
+  // Signs an issueCredential call for `fid` as the wallet with `key`
+  const sign = async (key: `0x${string}`, fid: number, challengeId: string): Promise<SignedForwardRequest> => {
+    const from = privateKeyToAccount(key).address
+    const [nonce, block] = await Promise.all([
+      publicClient.readContract({ address: forwarder, abi: SKUL_FORWARDER_ABI, functionName: 'getNonce', args: [from] }),
+      publicClient.getBlock(),
+    ])
+    const request = {
+      from,
+      to: registry,
+      value: '0',
+      gas: '500000',
+      nonce: nonce.toString(),
+      deadline: Number(block.timestamp) + 600,
+      data: encodeFunctionData({
+        abi: SKUL_REGISTRY_V2_ABI,
+        functionName: 'issueCredential',
+        args: [BigInt(fid), 'Business English', challengeId, 90, keccak256(stringToHex(`${fid}:${challengeId}:${Math.random()}`))],
+      }),
+    }
+    const signature = await walletClient(key).signTypedData({
+      domain: getForwarderDomain(forwarder, HARDHAT_LOCAL.id),
+      types: FORWARD_REQUEST_TYPES,
+      primaryType: 'ForwardRequest',
+      message: { ...request, value: 0n, gas: 500000n, nonce, deadline: BigInt(request.deadline) },
+    })
+    return { request, signature }
+  }
+
+  const createQuotaRelayer = (account = privateKeyToAccount(HARDHAT_KEYS[0]), budget = 10) =>
+    createRelayer({
+      account,
+      forwarderAddress: forwarder,
+      registryAddress: registry,
+      chain: HARDHAT_LOCAL,
+      rpcUrl: HARDHAT_RPC_URL,
+      quota: { limit: 1, windowMs: 60000 },
+      budget: { limit: budget, windowMs: 60000 },
+    })
+
+  before(async () => {
+    forwarder = await deploy('SkulForwarder')
+    registry = await deploy('SkulRegistryV2', [forwarder])
+  })
+
+  it('submits a signed mint for the signing wallet', async () => {
+    const result = await createQuotaRelayer().relay(await sign(HARDHAT_KEYS[1], 101, 'email-1'))
+    assert.equal(result.success, true)
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: result.txHash! })
+    assert.equal(receipt.status, 'success')
+    assert.equal(receipt.from.toLowerCase(), privateKeyToAccount(HARDHAT_KEYS[0]).address.toLowerCase())
+
+    const [credential] = await getCredentials(privateKeyToAccount(HARDHAT_KEYS[1]).address, registry, publicClient)
+    assert.equal(credential.fid, 101)
+  })
+
+  it('counts a mint against the wallet, whatever FID it claims', async () => {
+    const relayer = createQuotaRelayer()
+    assert.equal((await relayer.relay(await sign(HARDHAT_KEYS[2], 201, 'email-1'))).success, true)
+
+    const refused = await relayer.relay(await sign(HARDHAT_KEYS[2], 202, 'email-1'))
+    assert.equal(refused.success, false)
+    assert.ok(refused.retryAfterMs! > 0)
+  })
+
+  it("doesn't let another wallet use up an FID's mints", async () => {
+    const relayer = createQuotaRelayer()
+    assert.equal((await relayer.relay(await sign(HARDHAT_KEYS[2], 301, 'email-1'))).success, true)
+    assert.equal((await relayer.relay(await sign(HARDHAT_KEYS[3], 301, 'email-2'))).success, true)
+  })
+
+  it('stops at the overall budget', async () => {
+    const relayer = createQuotaRelayer(undefined, 1)
+    assert.equal((await relayer.relay(await sign(HARDHAT_KEYS[2], 501, 'email-1'))).success, true)
+
+    const refused = await relayer.relay(await sign(HARDHAT_KEYS[3], 502, 'email-1'))
+    assert.equal(refused.success, false)
+    assert.ok(refused.retryAfterMs! > 0)
+  })
+
+  it('sends one of several copies of a request sent at once', async () => {
+    const relayer = createRelayer({
+      account: privateKeyToAccount(HARDHAT_KEYS[0]),
+      forwarderAddress: forwarder,
+      registryAddress: registry,
+      chain: HARDHAT_LOCAL,
+      rpcUrl: HARDHAT_RPC_URL,
+    })
+    const signed = await sign(HARDHAT_KEYS[3], 601, 'email-3')
+
+    const results = await Promise.all([relayer.relay(signed), relayer.relay(signed), relayer.relay(signed)])
+    assert.equal(results.filter(result => result.success).length, 1)
+
+    // Still refused after it was sent, while the transaction may be pending
+    assert.match((await relayer.relay(signed)).error!, /already being relayed/)
+  })
+
+  it('gives the quota back when the transaction fails to submit', async () => {
+    // Simulation doesn't need gas money, but sending does
+    const account = privateKeyToAccount(generatePrivateKey())
+    const relayer = createQuotaRelayer(account)
+    const signed = await sign(HARDHAT_KEYS[1], 401, 'email-2')
+
+    await assert.rejects(relayer.relay(signed))
+    await rpc('hardhat_setBalance', [account.address, '0xde0b6b3a7640000'])
+
+    const result = await relayer.relay(signed)
+    assert.equal(result.success, true)
+    assert.equal((await publicClient.waitForTransactionReceipt({ hash: result.txHash! })).status, 'success')
+  })
+})
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { keccak256, stringToHex } from 'viem'
+import { createCredentialRecord } from '../src/utils/badge'
+import { getVerifyPath, parseRoute } from '../src/utils/router'
+
+const WALLET = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const TX_HASH = keccak256(stringToHex('tx'))
+
+const route = (path: string) => {
+  const url = new URL(path, 'http://localhost')
+  return parseRoute({ pathname: url.pathname, search: url.search })
+}
+
+describe('parseRoute', () => {
+  it('treats everything outside /verify/ as the app', () => {
+    assert.deepEqual(route('/'), { name: 'app' })
+    assert.deepEqual(route('/verifyx'), { name: 'app' })
+  })
+
+  it('reads wallet and transaction links', () => {
+    assert.deepEqual(route(`/verify/${WALLET}`), { name: 'verify-address', address: WALLET, claim: null })
+    assert.deepEqual(route(`/verify/tx/${TX_HASH}/`), { name: 'verify-tx', hash: TX_HASH, claim: null })
+  })
+
+  it('flags malformed links', () => {
+    assert.deepEqual(route('/verify/0x1234'), { name: 'verify-invalid', path: '/verify/0x1234' })
+    assert.deepEqual(route(`/verify/tx/${TX_HASH}/extra`), { name: 'verify-invalid', path: `/verify/tx/${TX_HASH}/extra` })
+  })
+
+  it('flags a malformed escape instead of throwing', () => {
+    assert.deepEqual(route('/verify/%E0'), { name: 'verify-invalid', path: '/verify/%E0' })
+    assert.deepEqual(route('/verify/tx/%'), { name: 'verify-invalid', path: '/verify/tx/%' })
+  })
+
+  it('reads back the claim a verify link carries', () => {
+    const record = createCredentialRecord({ fid: 7, wallet: WALLET, challengeId: 'email-1', answer: 'Dear team', timestamp: 1700000000000 })
+    const parsed = route(getVerifyPath({ ...record, txHash: TX_HASH }))
+
+    assert.equal(parsed.name, 'verify-tx')
+    assert.deepEqual(parsed.name === 'verify-tx' && parsed.claim, {
+      credentialNumber: record.credentialNumber,
+      input: { fid: 7, wallet: WALLET, challengeId: 'email-1', answerDigest: record.answerDigest, timestamp: 1700000000000 },
+    })
+  })
+
+  it('keeps the credential number when the inputs are incomplete', () => {
+    const parsed = route(`/verify/${WALLET}?credential=${TX_HASH}&fid=7`)
+    assert.deepEqual(parsed.name === 'verify-address' && parsed.claim, { credentialNumber: TX_HASH, input: undefined })
+  })
+
+  it('ignores a claim without a valid credential number', () => {
+    const parsed = route(`/verify/${WALLET}?credential=0x12`)
+    assert.equal(parsed.name === 'verify-address' && parsed.claim, null)
+  })
+})
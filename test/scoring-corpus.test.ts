@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { runScoringCorpus } from '../src/utils/scoring-corpus'
+import { scoreAnswer } from '../src/utils/validation'
+
+describe('scoring corpus', () => {
+  for (const result of runScoringCorpus()) {
+    it(`${result.scorer}: ${result.reason}`, () => {
+      assert.equal(result.actual, result.expected, result.answer)
+    })
+  }
+})
+
+describe('email professionalism', () => {
+  const matched = (answer: string) =>
+    scoreAnswer('email', answer).rubric.find(criterion => criterion.id === 'professionalism')?.matched
+
+  it('does not read "regards" as "regarding"', () => {
+    assert.deepEqual(matched('Dear Ms. Lee, the report is attached for your review. Best regards, Tom'), ['dear', 'best', 'regards'])
+  })
+
+  it('does not read "regarding" as "regards"', () => {
+    assert.deepEqual(matched('Dear Ms. Lee, I am writing regarding the report you asked for last week.'), ['dear', 'regarding'])
+  })
+
+  it('still matches inflected forms of the other phrases', () => {
+    assert.deepEqual(matched('Apologizing for the delay, the report will reach you by Friday afternoon.'), ['apologize'])
+  })
+})
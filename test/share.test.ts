@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { keccak256, stringToHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { createShareService, renderCertificatePng, type ShareService } from '../server/share'
+import { SKUL_REGISTRY_V2_ABI } from '../src/utils/badge'
+import { renderCertificateSvg, type CertificateImage } from '../src/utils/certificate'
+import { connectHardhat, HARDHAT_KEYS, HARDHAT_RPC_URL, type Hardhat } from './hardhat'
+
+const hardhat = await connectHardhat()
+
+// `$'`, `$&` and `$`` are replacement patterns in String.prototype.replace
+const SKILL_NAME = "Pitch $' $` $& <Deck>"
+const INDEX_HTML = '<!doctype html>\n<html>\n  <head>\n    <title>SKÜL</title>\n  </head>\n  <body></body>\n</html>\n'
+
+describe('certificate image', () => {
+  const certificate: CertificateImage = {
+    skillName: SKILL_NAME,
+    fid: 7,
+    wallet: privateKeyToAccount(HARDHAT_KEYS[1]).address,
+    credentialNumber: keccak256(stringToHex('credential')),
+    issuedAt: 1700000000,
+    challengeId: 'email-1',
+    score: 90,
+    chainLabel: 'Hardhat',
+    status: 'matched',
+  }
+
+  it('renders a standalone 3:2 SVG', () => {
+    const svg = renderCertificateSvg(certificate)
+    assert.match(svg, /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="1200" height="800"/)
+    assert.match(svg, /<\/svg>$/)
+    assert.ok(svg.includes('VERIFIED ONCHAIN'))
+    assert.ok(svg.includes('email-1 · 90/100 · Issued 2023-11-14'))
+  })
+
+  it('rasterizes text with the bundled fonts', () => {
+    const frame = (content: string) => `<svg xmlns="http://www.w3.org/2000/svg" width="200" height="60">${content}</svg>`
+    const render = (family: string) =>
+      renderCertificatePng(frame(`<text x="0" y="40" font-size="32" font-family="${family}">SKÜL</text>`))
+    const families = [...renderCertificateSvg(certificate).matchAll(/font-family="([^"]+)"/g)].map(match => match[1])
+    const sans = render(families[0])
+    const mono = render(families.find(family => family.includes('monospace'))!)
+
+    assert.notDeepEqual(sans, renderCertificatePng(frame('')))
+    // Falling back to the sans font would draw the same pixels
+    assert.notDeepEqual(mono, sans)
+  })
+
+  it('escapes the skill name', () => {
+    const svg = renderCertificateSvg(certificate)
+    assert.ok(svg.includes('Pitch $&apos; $` $&amp; &lt;Deck&gt;'))
+    assert.ok(!svg.includes('<Deck>'))
+  })
+})
+
+describe('share service', { skip: !hardhat && `no Hardhat node at ${HARDHAT_RPC_URL}` }, () => {
+  const { publicClient, deploy, walletClient } = hardhat as Hardhat
+  const user = privateKeyToAccount(HARDHAT_KEYS[1]).address
+  const credentialNumber = keccak256(stringToHex(`share:${Math.random()}`))
+  let share: ShareService
+  let txHash: `0x${string}`
+
+  before(async () => {
+    const registry = await deploy('SkulRegistryV2', ['0x0000000000000000000000000000000000000000'])
+    txHash = await walletClient(HARDHAT_KEYS[1]).writeContract({
+      address: registry,
+      abi: SKUL_REGISTRY_V2_ABI,
+      functionName: 'issueCredential',
+      args: [7n, SKILL_NAME, 'email-1', 90, credentialNumber],
+    })
+    await publicClient.waitForTransactionReceipt({ hash: txHash })
+
+    share = createShareService({
+      appUrl: 'https://skul.example',
+      registryAddress: registry,
+      chainLabel: 'Hardhat',
+      publicClient,
+      indexHtml: INDEX_HTML,
+    })
+  })
+
+  const image = (path: string) => share.renderImage(new URL(path, 'http://localhost'))
+  const svg = async (path: string) => (await image(path))?.body as string | undefined
+  const page = (path: string) => share.renderPage(new URL(path, 'http://localhost'))
+
+  it('renders the certificate a transaction issued', async () => {
+    const certificate = await svg(`/certificate/tx/${txHash}.svg`)
+    assert.ok(certificate?.includes('ISSUED ONCHAIN'))
+    assert.ok(certificate?.includes('Pitch $&apos; $` $&amp; &lt;Deck&gt;'))
+  })
+
+  it('renders the certificate as a 1200x800 PNG', async () => {
+    const file = await image(`/certificate/tx/${txHash}.png`)
+    assert.equal(file?.contentType, 'image/png')
+
+    const png = Buffer.from(file!.body as Uint8Array)
+    assert.deepEqual([...png.subarray(1, 4)], [...Buffer.from('PNG')])
+    assert.equal(png.readUInt32BE(16), 1200)
+    assert.equal(png.readUInt32BE(20), 800)
+  })
+
+  it("checks the link's claim against the chain", async () => {
+    assert.ok((await svg(`/certificate/${user}.svg?credential=${credentialNumber}`))?.includes('VERIFIED ONCHAIN'))
+
+    const forged = keccak256(stringToHex('forged'))
+    assert.ok((await svg(`/certificate/tx/${txHash}.svg?credential=${forged}`))?.includes('DOES NOT MATCH THE CHAIN'))
+  })
+
+  it('renders nothing for other paths or unknown credentials', async () => {
+    assert.equal(await image(`/certificate/tx/${txHash}.jpg`), null)
+    assert.equal(await image('/certificate/nope.png'), null)
+    // A transaction that isn't mined has no certificate yet
+    assert.equal(await image(`/certificate/tx/${keccak256(stringToHex('pending'))}.png`), null)
+    assert.equal(await image(`/certificate/${privateKeyToAccount(HARDHAT_KEYS[3]).address}.svg`), null)
+  })
+
+  it('inserts the skill name into the page as written', async () => {
+    const html = await page(`/verify/tx/${txHash}`)
+    const title = "Pitch $' $` $&amp; &lt;Deck&gt; · SKÜL Credential"
+
+    assert.ok(html.includes(`<title>${title}</title>`))
+    assert.ok(html.includes(`<meta property="og:title" content="${title}" />`))
+    assert.ok(html.includes(`<meta property="og:image" content="https://skul.example/certificate/tx/${txHash}.png" />`))
+    // A replacement pattern would have copied the rest of the document into the title
+    assert.equal(html.match(/<\/head>/g)?.length, 1)
+    assert.equal(html.match(/<body>/g)?.length, 1)
+  })
+
+  it('serves the app unchanged when the credential cannot be read', async () => {
+    assert.equal(await page(`/verify/${privateKeyToAccount(HARDHAT_KEYS[3]).address}`), INDEX_HTML)
+    assert.equal(await page('/verify/not-an-address'), INDEX_HTML)
+    assert.equal(await page('/verify/%E0'), INDEX_HTML)
+  })
+})